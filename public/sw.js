@@ -0,0 +1,99 @@
+// Streams downloads decrypted in the page to disk, see src/lib/utils/download.ts.
+// The page posts a MessagePort per download and then navigates a hidden frame to
+// /__download/<id>, which is answered with a stream fed from that port.
+// Also answers Range requests for /__media/<id> by asking the page that made them
+// for the decrypted bytes, see src/lib/utils/range.ts.
+const downloads = new Map();
+
+// Largest range answered at once, media elements ask again for the rest
+const MAX_MEDIA_RANGE = 4 * 1024 * 1024;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const { type, id, name, mime, size } = event.data || {};
+  if (type !== 'download') return;
+  const port = event.ports[0];
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.done) controller.close();
+        else if (data.error) controller.error(new Error(data.error));
+        else controller.enqueue(new Uint8Array(data.chunk));
+      };
+    },
+    // One message from the page per pull keeps at most a few segments queued
+    pull() {
+      port.postMessage({ type: 'pull' });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      downloads.delete(id);
+    },
+  }, { highWaterMark: 4 });
+  downloads.set(id, { stream, name, mime, size });
+  port.postMessage({ type: 'ready' });
+});
+
+// Asks the page for plaintext bytes [start, end) of a media file
+async function requestRange(clientId, id, start, end) {
+  const client = await self.clients.get(clientId);
+  if (!client) throw new Error('Page closed');
+  const channel = new MessageChannel();
+  const reply = new Promise((resolve, reject) => {
+    channel.port1.onmessage = ({ data }) => (data.error ? reject(new Error(data.error)) : resolve(data));
+  });
+  client.postMessage({ type: 'media-range', id, start, end }, [channel.port2]);
+  return reply;
+}
+
+async function serveMedia(request, clientId, id) {
+  // Media elements always send a range, treat a missing one as the whole file
+  const match = (request.headers.get('Range') || 'bytes=0-').match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return new Response('Unsupported range', { status: 416 });
+  const start = Number(match[1]);
+  const requestedEnd = match[2] ? Number(match[2]) + 1 : Infinity;
+  const end = Math.min(requestedEnd, start + MAX_MEDIA_RANGE);
+  try {
+    const { bytes, size, mime } = await requestRange(clientId, id, start, end);
+    if (start >= size) {
+      return new Response('Range not satisfiable', { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+    return new Response(bytes, {
+      status: 206,
+      headers: {
+        'Content-Type': mime || 'application/octet-stream',
+        'Content-Length': String(bytes.byteLength),
+        'Content-Range': `bytes ${start}-${start + bytes.byteLength - 1}/${size}`,
+        'Accept-Ranges': 'bytes',
+      },
+    });
+  } catch (error) {
+    return new Response(String(error && error.message), { status: 502 });
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const path = new URL(event.request.url).pathname;
+  const media = path.match(/^\/__media\/([^/]+)$/);
+  if (media) {
+    event.respondWith(serveMedia(event.request, event.clientId, media[1]));
+    return;
+  }
+  const match = path.match(/^\/__download\/([^/]+)$/);
+  if (!match) return;
+  const download = downloads.get(match[1]);
+  downloads.delete(match[1]);
+  if (!download) {
+    event.respondWith(new Response('Download expired', { status: 404 }));
+    return;
+  }
+  event.respondWith(new Response(download.stream, {
+    headers: {
+      'Content-Type': download.mime || 'application/octet-stream',
+      'Content-Length': String(download.size),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`,
+    },
+  }));
+});
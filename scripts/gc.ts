@@ -0,0 +1,50 @@
+// Lists every node and reports stored objects that no upload refers to.
+// Dry run by default; --save writes the reported orphans to a file, and --delete
+// with that file removes those of them that are still orphans.
+// Usage: npm run gc [-- --save <file> | --delete <file>]
+import { readFile, writeFile } from "fs/promises";
+import { collectOrphans, OrphanKey } from "../src/lib/maintenance/gc";
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    if (index === -1) return undefined;
+    const value = process.argv[index + 1];
+    if (!value || value.startsWith("--")) throw new Error(`${name} needs a file`);
+    return value;
+}
+
+async function main() {
+    const save = option("--save");
+    const reviewed = option("--delete");
+    const confirm = reviewed ? JSON.parse(await readFile(reviewed, "utf8")) as OrphanKey[] : undefined;
+    console.log(`Collecting orphans${confirm ? ` listed in ${reviewed}` : " (dry run)"}...`);
+
+    const reports = await collectOrphans({ confirm });
+    for (const report of reports) {
+        if (report.error) {
+            console.log(`${report.label} (${report.node}): failed, ${report.error}`);
+            continue;
+        }
+        const bytes = report.orphans.reduce((n, o) => n + o.size, 0);
+        console.log(`${report.label} (${report.node}): ${report.listed} objects, ${report.orphans.length} orphans (${bytes} bytes)`
+            + (confirm ? `, ${report.deleted} deleted` : ""));
+        report.orphans.forEach(o => console.log(`    ${o.key}`));
+    }
+
+    const orphans = reports.flatMap(r => r.orphans.map(o => ({ node: r.node, key: o.key })));
+    if (save) {
+        await writeFile(save, JSON.stringify(orphans, null, 2));
+        console.log(`Saved ${orphans.length} orphan(s) to ${save}.`);
+    }
+    if (!confirm && orphans.length > 0) {
+        console.log(save
+            ? `Review them, then run with --delete ${save} to remove them.`
+            : "Run again with --save <file>, review the file, then run with --delete <file> to remove them.");
+    }
+    process.exit(reports.some(r => r.error) ? 1 : 0);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,48 @@
+// Moves every chunk stored on a node to the other nodes, e.g. before retiring it.
+// Disable the node first (enabled: false) so no new chunks land on it.
+// Usage: npm run migrate -- --from <node> [--to <node>,<node>]
+//        npm run migrate -- --resume <migration id>
+//        npm run migrate -- --status
+import { listMigrations, migrateNode, NodeMigration } from "../src/lib/maintenance/migrate";
+
+function argument(name: string): string | undefined {
+    const i = process.argv.indexOf(name);
+    return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function describe(migration: NodeMigration): string {
+    return `${migration.id} ${migration.sourceNode} -> ${migration.targetNodes.join(",") || "any"}: `
+        + `${migration.status}, ${migration.movedChunks}/${migration.totalChunks} moved, ${migration.failedChunks} failed`
+        + (migration.lastError ? ` (last error: ${migration.lastError})` : "");
+}
+
+async function main() {
+    if (process.argv.includes("--status")) {
+        const migrations = await listMigrations();
+        if (migrations.length === 0) console.log("No migrations.");
+        migrations.forEach(m => console.log(describe(m)));
+        return;
+    }
+
+    const from = argument("--from");
+    const to = argument("--to")?.split(",").map(id => id.trim()).filter(Boolean);
+    const resume = argument("--resume");
+    if (!from && !resume) {
+        console.error("Pass --from <node>, --resume <migration id> or --status.");
+        process.exit(1);
+    }
+
+    const migration = await migrateNode({ from, to, resume }, m => {
+        console.log(`[${m.movedChunks + m.failedChunks}/${m.totalChunks}] ${m.movedChunks} moved, ${m.failedChunks} failed`);
+    });
+    console.log(describe(migration));
+    if (migration.status !== "completed") {
+        console.log(`Run again with --resume ${migration.id} to retry the remaining chunks.`);
+    }
+    process.exit(migration.status === "completed" ? 0 : 1);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,24 @@
+// Verifies every stored chunk against its hash and records per-file health.
+// Damaged copies are rewritten when redundancy allows it, pass --check-only to skip that.
+// Usage: npm run scrub [-- --check-only]
+import { scrubAll } from "../src/lib/maintenance/scrub";
+
+async function main() {
+    const repair = !process.argv.includes("--check-only");
+    console.log(`Scrubbing all uploads${repair ? "" : " (check only)"}...`);
+
+    const reports = await scrubAll({ repair }, (report, done, total) => {
+        console.log(`[${done}/${total}] ${report.health.padEnd(8)} ${report.fileName} (${report.id})`
+            + ` checked=${report.checkedCopies} damaged=${report.damagedCopies} repaired=${report.repairedCopies}`);
+        report.errors.forEach(error => console.log(`    ${error}`));
+    });
+
+    const count = (health: string) => reports.filter(r => r.health === health).length;
+    console.log(`Done: ${count("healthy")} healthy, ${count("repaired")} repaired, ${count("degraded")} degraded, ${count("lost")} lost`);
+    process.exit(count("lost") > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
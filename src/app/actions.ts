@@ -1,67 +1,186 @@
 "use server";
 
-import { utpApis, uploads, UtServerNumber, db, UploadPart } from "@/lib";
-import { eq } from "drizzle-orm";
+import { getStorageBackend, getNodeUsage, InsufficientCapacityError, getErasureConfig, getReplicationFactor, getWritableNodes, uploads, pendingParts, db, UploadPart, UploadConfig, UploadResult, ChunkLocation, NodeUsage, UploadMeta, DirectUploadRequest, DirectUploadPlan, PrepareUploadResult, ConfirmChunkResult, ResumeUploadResult, UploadSessionInfo, uploadSessions, fileRequests, WrappedFileKey, FileRecord, ShareInfo, ShareOptions, SharedFileDetails, SharedFileResult, SharedCollectionResult, FileRequestInfo, FileRequestOptions, FileRequestResult, SessionUser } from "@/lib";
+import { createUploadTargets, loadUploadTargets, PendingCopy, PlacedObject, reissueUploadTargets, rollbackChunks, uploadChunks, UploadTransactionError } from "@/lib/storage/transaction";
+import { createUploadSession, deleteUploadSession, getUploadSession, listUploadSessions, markChunkStored, UploadSession } from "@/lib/storage/sessions";
+import { encodeParity } from "@/lib/utils/erasure";
+import { readEnvelopeHeader } from "@/lib/utils/stream";
+import { isWrappedFileKey } from "@/lib/utils/vault";
+import { claimShareDownload, createShare, deleteShares, getActiveShare, isShareToken, listActiveShares, revokeShare, Share } from "@/lib/sharing/shares";
+import { Collection, createCollection, getCollections } from "@/lib/sharing/collections";
+import { closeFileRequest, createFileRequest, FileRequest, getOpenFileRequest, listFileRequests, releaseDrop, reserveDrop } from "@/lib/sharing/requests";
+import { isDropKey, isDropPublicKey } from "@/lib/utils/drop";
+import { partLocations } from "@/lib/utils/parts";
+import { scrubAll, ScrubReport } from "@/lib/maintenance/scrub";
+import { collectOrphans, NodeGcReport, OrphanKey } from "@/lib/maintenance/gc";
+import { and, eq, inArray, isNotNull, isNull } from "drizzle-orm";
 // import { combineFiles, splitFile } from "@/lib/utils/file";
-import { createHash } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import { UUID } from "crypto";
-import { UploadFileResult } from "uploadthing/types";
-import { verifySession } from "./auth-actions";
+import { getSessionUser } from "./auth-actions";
 
 
-async function utUploadFiles(files: File[], server: UtServerNumber) {
-    if (files.length === 0) {
-        throw new Error("No files selected for upload");
+// Helper function to verify session, returns the account it belongs to
+async function requireAuth(sessionToken: string | null | undefined): Promise<SessionUser> {
+  if (!sessionToken) {
+    throw new Error("Authentication required");
+  }
+  const user = await getSessionUser(sessionToken);
+  if (!user) {
+    throw new Error("Invalid or expired session");
+  }
+  return user;
+}
+
+// Maintenance reaches every user's files, so it is left to admins
+async function requireAdmin(sessionToken: string | null | undefined): Promise<SessionUser> {
+  const user = await requireAuth(sessionToken);
+  if (user.role !== "admin") {
+    throw new Error("Only admins can do this");
+  }
+  return user;
+}
+
+// Erasure coding and replication layout the client should use for new uploads
+export async function GetUploadConfig(sessionToken?: string | null): Promise<UploadConfig> {
+    await requireAuth(sessionToken);
+    return {
+        ...getErasureConfig(),
+        replicationFactor: getReplicationFactor(),
+        maxReplicationFactor: getWritableNodes().length,
+    };
+}
+
+type VerifiedUpload = {
+    uploadId: string;
+    wrappedKey: string | null;
+    meta: UploadMeta;
+    fileHash: string;
+    chunkHashes: string[];
+    files: File[];
+    sizes: number[];
+    dataCount: number;
+    copies: number;
+}
+
+/**
+ * Checks a chunk layout against the erasure config and the writable nodes.
+ * @returns The number of data chunks.
+ */
+function checkLayout(chunkCount: number, parityCount: number, copies: number): number {
+    const { dataChunks, parityChunks } = getErasureConfig();
+    const dataCount = chunkCount - parityCount;
+    if (parityCount !== parityChunks || dataCount < 1 || dataCount > dataChunks) {
+        throw new Error(`Expected up to ${dataChunks} data chunks and ${parityChunks} parity chunks`);
     }
-    const response = await utpApis[server].uploadFiles(files);
-    if (!response) {
-        throw new Error("Failed to upload files");
+
+    const writable = getWritableNodes().length;
+    if (!Number.isInteger(copies) || copies < 1 || copies > writable) {
+        throw new Error(`Replication factor must be between 1 and ${writable}`);
     }
-    return response;
+    return dataCount;
 }
 
-async function utUploadMultiFile(files: File[]) {
-    const details: UploadFileResult[] = []
-    const results = await Promise.all(
-        files.map(async (file, i) => {
-            const result = await utUploadFiles([file], i as UtServerNumber)
-            return { index: i, result }
-        })
-    )
+// Largest plaintext segment accepted for the segmented format
+const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
 
-    results
-        .sort((a, b) => a.index - b.index)
-        .forEach(async ({ result }) => {
-            details.push(...result)
-        })
+// Base64 of sealed file details, a long file name and type fit easily
+const MAX_SEALED_DETAILS_LENGTH = 8 * 1024;
 
-    return details;
+function checkMeta(meta: UploadMeta): void {
+    if (!meta?.filename || !Number.isInteger(meta.size) || meta.size < 0) {
+        throw new Error("Invalid file metadata");
+    }
+    const { encryption } = meta;
+    if (encryption && (encryption.scheme !== "envelope"
+        || !Number.isInteger(encryption.segmentSize)
+        || encryption.segmentSize < 1
+        || encryption.segmentSize > MAX_SEGMENT_SIZE)) {
+        throw new Error("Unsupported encryption scheme");
+    }
+    const { compression } = meta;
+    if (compression && (!["gzip", "deflate"].includes(compression.codec)
+        || !Number.isInteger(compression.size)
+        || compression.size < 0)) {
+        throw new Error("Unsupported compression codec");
+    }
+    const { sealedDetails } = meta;
+    if (sealedDetails !== undefined && (typeof sealedDetails !== "string"
+        || sealedDetails.length > MAX_SEALED_DETAILS_LENGTH
+        || !/^[A-Za-z0-9+/]+={0,2}$/.test(sealedDetails))) {
+        throw new Error("Invalid sealed file details");
+    }
 }
 
-// Helper function to verify session
-async function requireAuth(sessionToken: string | null | undefined): Promise<void> {
-  if (!sessionToken) {
-    throw new Error("Authentication required");
-  }
-  const isValid = await verifySession(sessionToken);
-  if (!isValid) {
-    throw new Error("Invalid or expired session");
-  }
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function checkUploadId(uploadId: string): void {
+    if (typeof uploadId !== "string" || !UUID_PATTERN.test(uploadId)) {
+        throw new Error("Upload id must be a UUID");
+    }
 }
 
-// Accepts encrypted chunks as FormData and uploads them to UploadThing servers after integrity checks
-export async function UploadEncrypted(formData: FormData, sessionToken?: string | null): Promise<{ id: string }>{
-    await requireAuth(sessionToken);
+function checkWrappedKey(wrappedKey: string | null): void {
+    if (wrappedKey !== null && !isWrappedFileKey(wrappedKey)) {
+        throw new Error("Invalid wrapped file key");
+    }
+}
+
+// Every data chunk has to carry the envelope header of its own position, in the announced segment size
+function verifyEnvelopes(buffers: Uint8Array[], meta: UploadMeta, dataCount: number): void {
+    if (meta.encryption?.scheme !== "envelope") return;
+    const { segmentSize } = meta.encryption;
+    buffers.slice(0, dataCount).forEach((buf, i) => {
+        const header = readEnvelopeHeader(buf);
+        if (header.chunk !== i || header.total !== dataCount || header.segmentSize !== segmentSize) {
+            throw new Error(`Chunk ${i} carries the envelope header of chunk ${header.chunk} of ${header.total}`);
+        }
+    });
+}
+
+// Verifies each chunk hash H(IV||C), the parity chunks and file_hash = H(h0||h1||...)
+function verifyChunks(buffers: Uint8Array[], chunkHashes: string[], dataCount: number, fileHash: string): void {
+    buffers.forEach((buf, i) => {
+        const h = createHash("sha256").update(buf).digest("base64");
+        if (h !== chunkHashes[i]) {
+            throw new Error(`Chunk ${i} hash mismatch`);
+        }
+    });
+
+    // Parity must match the data, otherwise a later rebuild would produce garbage
+    const parityCount = buffers.length - dataCount;
+    if (parityCount > 0) {
+        const expected = encodeParity(buffers.slice(0, dataCount), parityCount);
+        expected.forEach((parity, j) => {
+            if (Buffer.compare(Buffer.from(parity), Buffer.from(buffers[dataCount + j])) !== 0) {
+                throw new Error(`Parity chunk ${j} does not match data chunks`);
+            }
+        });
+    }
+
+    const combinedHashesBuffer = Buffer.from(chunkHashes.join(""));
+    const combinedHash = createHash("sha256").update(combinedHashesBuffer).digest("base64");
+    if (combinedHash !== fileHash) {
+        throw new Error("file_hash mismatch");
+    }
+}
+
+// Validates the FormData of an upload: chunk hashes, parity and file_hash
+async function verifyUploadForm(formData: FormData): Promise<VerifiedUpload> {
     const metaRaw = formData.get("meta");
     const fileHash = formData.get("file_hash");
     const chunkHashesRaw = formData.get("chunk_hashes");
+    const uploadId = formData.get("upload_id");
+    const wrappedKey = formData.get("wrapped_key");
 
-    if (!metaRaw || !fileHash || !chunkHashesRaw) {
-        throw new Error("Missing required fields: meta, file_hash, chunk_hashes");
+    if (!metaRaw || !fileHash || !chunkHashesRaw || !uploadId) {
+        throw new Error("Missing required fields: meta, file_hash, chunk_hashes, upload_id");
     }
 
-    const meta = JSON.parse(String(metaRaw)) as { filename: string; size: number; mime: string };
+    const meta = JSON.parse(String(metaRaw)) as UploadMeta;
     const chunkHashes = JSON.parse(String(chunkHashesRaw)) as string[]; // base64 strings
+    const parityCount = parseInt(String(formData.get("parity_count") ?? "0"));
+    const copies = parseInt(String(formData.get("replication") ?? getReplicationFactor()));
 
     // Collect File entries from FormData in deterministic order by part index encoded in name
     const chunkEntries: { index: number; file: File }[] = [];
@@ -77,109 +196,752 @@ export async function UploadEncrypted(formData: FormData, sessionToken?: string
         throw new Error("Chunk count does not match hash count");
     }
 
-    // Verify each chunk hash H(IV||C)
-    await Promise.all(chunkEntries.map(async ({ file }, i) => {
-        const buf = Buffer.from(await file.arrayBuffer());
-        const h = createHash("sha256").update(buf).digest("base64");
-        if (h !== chunkHashes[i]) {
-            throw new Error(`Chunk ${i} hash mismatch`);
-        }
-    }));
+    checkUploadId(String(uploadId));
+    checkWrappedKey(wrappedKey === null ? null : String(wrappedKey));
+    checkMeta(meta);
+    const dataCount = checkLayout(chunkEntries.length, parityCount, copies);
+    const buffers = await Promise.all(chunkEntries.map(async ({ file }) => new Uint8Array(await file.arrayBuffer())));
+    verifyChunks(buffers, chunkHashes, dataCount, String(fileHash));
+    verifyEnvelopes(buffers, meta, dataCount);
+
+    return {
+        uploadId: String(uploadId),
+        wrappedKey: wrappedKey === null ? null : String(wrappedKey),
+        meta,
+        fileHash: String(fileHash),
+        chunkHashes,
+        files: chunkEntries.map(({ file }) => file),
+        sizes: buffers.map(b => b.byteLength),
+        dataCount,
+        copies,
+    };
+}
 
-    // Upload in parallel to each UploadThing server
-    const filesToUpload = chunkEntries.map(({ file }) => file);
-    const uploadResults = await utUploadMultiFile(filesToUpload);
+// Chunk file names as stored on the nodes: <file>.part<i> for data, <file>.parity<j> for parity
+function chunkName(filename: string, position: number, dataCount: number): string {
+    return position < dataCount ? `${filename}.part${position}` : `${filename}.parity${position - dataCount}`;
+}
 
-    const fileChunksDetails: UploadPart[] = uploadResults.map((chunk, i) => {
-        if (!chunk.data?.key) {
-            throw new Error(`Failed to upload chunk: Missing key for ${chunk.data?.name}`);
-        }
+function toUploadParts(
+    copies: (ChunkLocation & { name: string })[][],
+    chunkHashes: string[],
+    sizes: number[],
+    dataCount: number,
+): UploadPart[] {
+    return copies.map(([chunk, ...replicas], i) => {
+        const isParity = i >= dataCount;
         return {
-            key: chunk.data.key,
-            name: chunk.data.name,
-            url: chunk.data.ufsUrl,
+            key: chunk.key,
+            name: chunk.name,
+            url: chunk.url,
             hash: chunkHashes[i],
+            role: isParity ? "parity" : "data",
+            index: isParity ? i - dataCount : i,
+            size: sizes[i],
+            node: chunk.node,
+            replicas: replicas.map(({ node, key, url }) => ({ node, key, url })),
         } as UploadPart;
     });
+}
 
-    // Verify overall file_hash = H(h0||h1||...)
-    const combinedHashesBuffer = Buffer.from(chunkHashes.join(""));
-    const combinedHash = createHash("sha256").update(combinedHashesBuffer).digest("base64");
-    if (combinedHash !== fileHash) {
-        throw new Error("file_hash mismatch");
+/**
+ * Phase 2 of an upload: commits the upload row and releases the pending parts together.
+ * If the commit fails, every stored copy is deleted again.
+ */
+async function commitUpload(
+    transactionId: string,
+    ownerId: string,
+    uploadId: string,
+    wrappedKey: string | null,
+    meta: UploadMeta,
+    fileHash: string,
+    parts: UploadPart[],
+    stored: { node: string; key: string }[],
+    drop: { requestId: string; dropKey: string } | null = null,
+): Promise<UploadResult> {
+    try {
+        const id = await db.transaction(async (tx) => {
+            const inserted = await tx.insert(uploads).values({
+                id: uploadId,
+                originalFileName: meta.filename,
+                mimeType: meta.mime,
+                originalSize: meta.size,
+                uploadParts: parts,
+                fileHash,
+                ownerId,
+                encryption: meta.encryption ?? null,
+                compression: meta.compression ?? null,
+                wrappedKey,
+                sealedDetails: meta.sealedDetails ?? null,
+                requestId: drop?.requestId ?? null,
+                dropKey: drop?.dropKey ?? null,
+            }).returning({ id: uploads.id });
+            await tx.delete(pendingParts).where(eq(pendingParts.transactionId, transactionId));
+            await tx.delete(uploadSessions).where(eq(uploadSessions.id, transactionId));
+            return inserted[0].id;
+        });
+        return { success: true, id };
+    } catch (error) {
+        console.error("Failed to commit upload:", error);
+        return rollbackUpload(transactionId, stored, "UPLOAD_FAILED", errorMessage(error));
     }
+}
 
-    const inserted = await db.insert(uploads).values({
-        originalFileName: meta.filename,
-        mimeType: meta.mime,
-        originalSize: meta.size,
-        uploadParts: fileChunksDetails,
-        fileHash: String(fileHash),
-    }).returning({ id: uploads.id });
+// Deletes the stored copies of a failed upload and reports what was left behind
+async function rollbackUpload(
+    transactionId: string,
+    stored: { node: string; key: string }[],
+    code: "UPLOAD_FAILED" | "VERIFICATION_FAILED",
+    message: string,
+): Promise<UploadResult> {
+    const orphaned = await rollbackChunks(transactionId, stored);
+    await deleteUploadSession(transactionId).catch(() => {});
+    return {
+        success: false,
+        error: {
+            code: orphaned.length > 0 ? "ROLLBACK_INCOMPLETE" : code,
+            message,
+            orphanedChunks: orphaned.map(({ node, key }) => ({ node, key })),
+        },
+    };
+}
 
-    return { id: inserted[0].id };
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
 }
 
-export async function DeleteFile(id: UUID, sessionToken?: string | null) {
-    await requireAuth(sessionToken);
+// Accepts encrypted chunks as FormData and uploads them to the storage nodes after integrity checks.
+// The last `parity_count` chunks are Reed-Solomon parity over the preceding data chunks.
+// Every chunk is written `replication` times, each copy on a different node.
+// Uploads are two-phase: chunks are stored as pending parts first and only become
+// part of an upload once its row is inserted. On failure every stored chunk is deleted again.
+export async function UploadEncrypted(formData: FormData, sessionToken?: string | null): Promise<UploadResult> {
+    const user = await requireAuth(sessionToken);
+
+    let upload: VerifiedUpload;
+    try {
+        upload = await verifyUploadForm(formData);
+    } catch (error) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: errorMessage(error) } };
+    }
+    return storeUpload(upload, user.id);
+}
+
+// Stores a verified upload on the nodes and commits it for its owner, see UploadEncrypted
+async function storeUpload(upload: VerifiedUpload, ownerId: string, drop: { requestId: string; dropKey: string } | null = null): Promise<UploadResult> {
+    // Phase 1: upload in parallel to the storage nodes
+    const transactionId = randomUUID();
+    let uploadResults: PlacedObject[][];
+    try {
+        uploadResults = await uploadChunks(upload.files, transactionId, upload.copies);
+    } catch (error) {
+        if (error instanceof InsufficientCapacityError) {
+            return { success: false, error: { code: "INSUFFICIENT_CAPACITY", message: error.message } };
+        }
+        if (!(error instanceof UploadTransactionError)) {
+            return { success: false, error: { code: "UPLOAD_FAILED", message: errorMessage(error) } };
+        }
+        return {
+            success: false,
+            error: {
+                code: error.orphaned.length > 0 ? "ROLLBACK_INCOMPLETE" : "UPLOAD_FAILED",
+                message: error.message,
+                failedChunks: error.failedChunks,
+                orphanedChunks: error.orphaned.map(({ node, key }) => ({ node, key })),
+            },
+        };
+    }
+
+    const parts = toUploadParts(uploadResults, upload.chunkHashes, upload.sizes, upload.dataCount);
+    return commitUpload(transactionId, ownerId, upload.uploadId, upload.wrappedKey, upload.meta, upload.fileHash, parts, uploadResults.flat(), drop);
+}
+
+// Same answer for unknown, expired and closed request links
+const FILE_REQUEST_UNAVAILABLE = "This request link has expired or is no longer available";
+
+// Drops reach this server in one request, which has to fit the server action body limit in next.config.ts
+const MAX_DROP_BYTES = 90 * 1024 * 1024;
+
+/**
+ * What a drop declares, checked before any chunk is read: a chunk count the erasure
+ * layout allows and their total size within MAX_DROP_BYTES.
+ * @returns The total size of the chunks.
+ */
+function checkDropSize(formData: FormData): number {
+    const chunks = [...formData.entries()].flatMap(([key, value]) => key.startsWith("chunk") && value instanceof File ? [value] : []);
+    const { dataChunks, parityChunks } = getErasureConfig();
+    if (chunks.length <= parityChunks || chunks.length > dataChunks + parityChunks) {
+        throw new Error("Unexpected number of chunks");
+    }
+    const bytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+    if (bytes > MAX_DROP_BYTES) {
+        throw new Error(`Files dropped through a request link can be up to ${MAX_DROP_BYTES / (1024 * 1024)} MB encrypted`);
+    }
+    return bytes;
+}
+
+/**
+ * Public: UploadEncrypted for uploaders without an account, through a file request link.
+ * Restricted to what a drop needs: the default replication, sealed file details, and a file key
+ * wrapped to the request's public key instead of the owner's vault. Anyone with the token can
+ * call this, so the declared sizes are checked and counted against the request's quotas before
+ * any chunk is read or hashed; the reservation is given back if the upload fails.
+ */
+export async function DropUpload(token: string, formData: FormData): Promise<UploadResult> {
+    const request = isShareToken(token) ? await getOpenFileRequest(token) : null;
+    if (!request?.ownerId) return { success: false, error: { code: "INVALID_REQUEST", message: FILE_REQUEST_UNAVAILABLE } };
+
+    let bytes: number;
+    const dropKey = formData.get("drop_key");
     try {
-        const listKey = await db.select().from(uploads).where(eq(uploads.id, id));
-        await Promise.all(listKey[0].uploadParts.map(async (key, i) => {
-            utDeleteFile(key.key, i as UtServerNumber);
-        })).then(async () => {
-            await db.delete(uploads).where(eq(uploads.id, listKey[0].id))
-        })
-        return true
-    } catch (e) {
-        console.log(e)
-        return false
+        if (!isDropKey(dropKey)) throw new Error("Invalid drop key");
+        bytes = checkDropSize(formData);
+    } catch (error) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: errorMessage(error) } };
+    }
+    if (!(await reserveDrop(request.id, bytes))) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: "This file is over what the request link still accepts" } };
     }
+
+    let upload: VerifiedUpload;
+    try {
+        formData.delete("replication");
+        formData.delete("wrapped_key");
+        upload = await verifyUploadForm(formData);
+        if (!upload.meta.sealedDetails) throw new Error("Dropped files need sealed details");
+    } catch (error) {
+        await releaseDrop(request.id, bytes);
+        return { success: false, error: { code: "INVALID_REQUEST", message: errorMessage(error) } };
+    }
+
+    const result = await storeUpload(upload, request.ownerId, { requestId: request.id, dropKey });
+    if (!result.success) await releaseDrop(request.id, bytes);
+    return result;
 }
+
+// Starts a direct upload: issues a presigned target for every chunk copy, so the
+// browser uploads ciphertext to the nodes without going through this server.
+// The expected chunks and hashes are recorded in an upload session, so an interrupted
+// upload can be resumed. Nothing is verified yet, ConfirmChunk and FinalizeUpload do that.
+export async function PrepareUpload(request: DirectUploadRequest, sessionToken?: string | null): Promise<PrepareUploadResult> {
+    const user = await requireAuth(sessionToken);
+
+    const { uploadId, meta, chunkSizes, chunkHashes, fileHash, parityCount, replication } = request;
+    let dataCount: number;
+    try {
+        checkUploadId(uploadId);
+        if (!chunkSizes.every(size => Number.isInteger(size) && size > 0)) {
+            throw new Error("Chunk sizes must be positive integers");
+        }
+        if (chunkHashes?.length !== chunkSizes.length || !chunkHashes.every(h => typeof h === "string" && h) || !fileHash) {
+            throw new Error("Expected a hash for every chunk and a file hash");
+        }
+        checkMeta(meta);
+        dataCount = checkLayout(chunkSizes.length, parityCount, replication);
+    } catch (error) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: errorMessage(error) } };
+    }
+
+    const transactionId = randomUUID();
+    try {
+        const names = chunkSizes.map((_, i) => chunkName(meta.filename, i, dataCount));
+        const targets = await createUploadTargets(names, chunkSizes, transactionId, replication);
+        let wrappingKey: string;
+        try {
+            ({ wrappingKey } = await createUploadSession(transactionId, request, user.id));
+        } catch (error) {
+            // Nothing has been uploaded to the targets yet, forgetting them is enough
+            await db.delete(pendingParts).where(eq(pendingParts.transactionId, transactionId));
+            throw error;
+        }
+        return { success: true, plan: { transactionId, targets, wrappingKey } };
+    } catch (error) {
+        const code = error instanceof InsufficientCapacityError ? "INSUFFICIENT_CAPACITY" : "UPLOAD_FAILED";
+        return { success: false, error: { code, message: errorMessage(error) } };
+    }
+}
+
+// Reads every copy of a chunk back from its node, all of them have to be intact, not just the first one
+async function readCopies(copies: PendingCopy[], hash: string, chunk: number): Promise<Uint8Array> {
+    if (copies.length === 0) {
+        throw new Error(`Chunk ${chunk} has no copies`);
+    }
+    const stored = await Promise.all(copies.map(c => getStorageBackend(c.node).download(c.key)));
+    stored.forEach((bytes, j) => {
+        const h = createHash("sha256").update(bytes).digest("base64");
+        if (bytes.byteLength !== copies[j].size || h !== hash) {
+            throw new Error(`Chunk ${chunk} copy on node ${copies[j].node} does not match its hash`);
+        }
+    });
+    return stored[0];
+}
+
+// The session of a direct upload the user prepared, null for anyone else's
+async function getOwnUploadSession(transactionId: string, user: SessionUser): Promise<UploadSession | null> {
+    const session = await getUploadSession(transactionId);
+    return session?.ownerId === user.id ? session : null;
+}
+
+// Checks every copy of one chunk of a direct upload and records the chunk as stored,
+// so resuming the upload skips it. A chunk that does not verify is left for the client to resend.
+export async function ConfirmChunk(transactionId: string, chunk: number, sessionToken?: string | null): Promise<ConfirmChunkResult> {
+    const user = await requireAuth(sessionToken);
+
+    const session = await getOwnUploadSession(transactionId, user);
+    if (!session || !Number.isInteger(chunk) || chunk < 0 || chunk >= session.chunkHashes.length) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: "Unknown or expired upload" } };
+    }
+    try {
+        const chunks = await loadUploadTargets(transactionId);
+        await readCopies(chunks[chunk] ?? [], session.chunkHashes[chunk], chunk);
+        await markChunkStored(transactionId, chunk);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: { code: "VERIFICATION_FAILED", message: errorMessage(error) } };
+    }
+}
+
+// Uploads that were prepared but not finalized and can still be resumed
+export async function GetUploadSessions(sessionToken?: string | null): Promise<UploadSessionInfo[]> {
+    const user = await requireAuth(sessionToken);
+    return (await listUploadSessions(user.id)).map(session => ({
+        transactionId: session.id,
+        filename: session.meta.filename,
+        size: session.meta.size,
+        chunkCount: session.chunkHashes.length,
+        storedChunks: session.storedChunks,
+        expiresAt: session.expiresAt,
+    }));
+}
+
+// Continues an interrupted direct upload. Chunks that are not recorded as stored get fresh
+// targets, whatever their old targets received is deleted. The client re-derives just those
+// chunks with the key material it kept, and checks them against the recorded hashes.
+export async function ResumeUpload(transactionId: string, sessionToken?: string | null): Promise<ResumeUploadResult> {
+    const user = await requireAuth(sessionToken);
+
+    const session = await getOwnUploadSession(transactionId, user);
+    if (!session) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: "Unknown or expired upload" } };
+    }
+
+    const { uploadId, meta, chunkSizes, chunkHashes, parityCount, replication, storedChunks, wrappingKey } = session;
+    const dataCount = chunkSizes.length - parityCount;
+    const missing = chunkSizes.map((_, i) => i).filter(i => !storedChunks.includes(i));
+    const targets: DirectUploadPlan["targets"] = chunkSizes.map(() => []);
+    try {
+        const reissued = await reissueUploadTargets(
+            transactionId,
+            missing,
+            missing.map(i => chunkName(meta.filename, i, dataCount)),
+            missing.map(i => chunkSizes[i]),
+            replication,
+        );
+        missing.forEach((chunk, i) => { targets[chunk] = reissued[i]; });
+    } catch (error) {
+        const code = error instanceof InsufficientCapacityError ? "INSUFFICIENT_CAPACITY" : "UPLOAD_FAILED";
+        return { success: false, error: { code, message: errorMessage(error) } };
+    }
+
+    return {
+        success: true,
+        uploadId,
+        meta,
+        chunkSizes,
+        chunkHashes,
+        parityCount,
+        missing,
+        plan: { transactionId, targets, wrappingKey },
+    };
+}
+
+// Completes a direct upload. Every copy is read back from its node and checked against
+// the chunk hashes recorded in its session, the parity and file_hash before the upload
+// row is inserted. Anything that does not verify is rolled back.
+// `wrappedKey` is the file key wrapped under the owner's vault key, null to keep it in the link only.
+export async function FinalizeUpload(transactionId: string, wrappedKey: string | null, sessionToken?: string | null): Promise<UploadResult> {
+    const user = await requireAuth(sessionToken);
+    try {
+        checkWrappedKey(wrappedKey);
+    } catch (error) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: errorMessage(error) } };
+    }
+
+    const session = await getOwnUploadSession(transactionId, user);
+    const chunks = session ? await loadUploadTargets(transactionId) : [];
+    if (!session || chunks.length === 0) {
+        return { success: false, error: { code: "INVALID_REQUEST", message: "Unknown or expired upload" } };
+    }
+
+    const { uploadId, meta, fileHash, chunkHashes, parityCount } = session;
+    let dataCount: number;
+    let buffers: Uint8Array[];
+    try {
+        if (chunks.length !== chunkHashes.length || chunks.some(copies => copies.length !== chunks[0].length)) {
+            throw new Error("Chunk count does not match the prepared upload");
+        }
+        checkMeta(meta);
+        dataCount = checkLayout(chunks.length, parityCount, chunks[0].length);
+        buffers = await Promise.all(chunks.map((copies, i) => readCopies(copies, chunkHashes[i], i)));
+        verifyChunks(buffers, chunkHashes, dataCount, fileHash);
+        verifyEnvelopes(buffers, meta, dataCount);
+    } catch (error) {
+        return rollbackUpload(transactionId, chunks.flat(), "VERIFICATION_FAILED", errorMessage(error));
+    }
+
+    const located = await Promise.all(chunks.map((copies, i) => Promise.all(copies.map(async c => ({
+        node: c.node,
+        key: c.key,
+        url: await getStorageBackend(c.node).getUrl(c.key),
+        name: chunkName(meta.filename, i, dataCount),
+    })))));
+    const parts = toUploadParts(located, chunkHashes, buffers.map(b => b.byteLength), dataCount);
+    return commitUpload(transactionId, user.id, uploadId, wrappedKey, meta, fileHash, parts, chunks.flat());
+}
+
+// Abandons a direct upload and its session, and deletes what was stored
+export async function AbortUpload(transactionId: string, sessionToken?: string | null): Promise<void> {
+    const user = await requireAuth(sessionToken);
+    if (!(await getOwnUploadSession(transactionId, user))) return;
+    await rollbackChunks(transactionId, (await loadUploadTargets(transactionId)).flat());
+    await deleteUploadSession(transactionId);
+}
+
+// Used bytes, quota and free space of every node for admins, members only see what their own files use
+export async function GetNodeUsage(sessionToken?: string | null): Promise<NodeUsage[]> {
+    const user = await requireAuth(sessionToken);
+    return getNodeUsage(user.role === "admin" ? undefined : user.id);
+}
+
+// Verifies every stored chunk, records per-file health and repairs damaged copies where possible
+export async function ScrubFiles(sessionToken?: string | null, repair = true): Promise<ScrubReport[]> {
+    await requireAdmin(sessionToken);
+    return scrubAll({ repair });
+}
+
+// Reports chunks on the nodes that no upload refers to, and deletes those in `confirm`, taken from an earlier report, that still are
+export async function CollectOrphans(sessionToken?: string | null, confirm?: OrphanKey[]): Promise<NodeGcReport[]> {
+    await requireAdmin(sessionToken);
+    return collectOrphans({ confirm });
+}
+
+// Deletes an upload of the user with every copy of its chunks. Copies a node fails to delete
+// are recorded as pending parts in the transaction that removes the row, so orphan collection
+// deletes them once the grace period has passed instead of nobody knowing about them.
+export async function DeleteFile(id: UUID, sessionToken?: string | null): Promise<boolean> {
+    const user = await requireAuth(sessionToken);
+    try {
+        const [rec] = await db.select().from(uploads).where(and(eq(uploads.id, id), eq(uploads.ownerId, user.id)));
+        if (!rec) return false;
+
+        const locations = rec.uploadParts.flatMap((part, i) => partLocations(part, i));
+        const results = await Promise.allSettled(locations.map(location => storageDeleteFile(location.key, location.node)));
+        const failed = locations.filter((location, i) => {
+            const result = results[i];
+            if (result.status === "fulfilled") return false;
+            console.error(`Failed to delete ${location.key} from node ${location.node}:`, result.reason);
+            return true;
+        });
+
+        await db.transaction(async (tx) => {
+            if (failed.length > 0) {
+                await tx.insert(pendingParts).values(failed.map(({ node, key }) => ({ transactionId: rec.id, node, key })));
+            }
+            await tx.delete(uploads).where(eq(uploads.id, rec.id));
+        });
+        await deleteShares(rec.id);
+        return true;
+    } catch (error) {
+        console.error("Failed to delete file:", error);
+        return false;
+    }
+}
+// The files of the logged in user, dropped files included
 export async function GetAllFiles(sessionToken?: string | null) {
-    await requireAuth(sessionToken);
-    const files = await db.select().from(uploads);
+    const user = await requireAuth(sessionToken);
+    const files = await db.select().from(uploads).where(eq(uploads.ownerId, user.id));
     return files;
 }
 
-export async function GetFile(id: UUID, sessionToken?: string | null): Promise<{
-    originalFileName: string;
-    mimeType: string;
-    originalSize: number;
-    fileHash: string;
-    uploadParts: UploadPart[];
-}> {
+// Every key in the user's vault, for re-wrapping them when the passphrase changes:
+// file keys by upload id, and the request keys of file request links by token
+export async function GetWrappedKeys(sessionToken?: string | null): Promise<WrappedFileKey[]> {
+    const user = await requireAuth(sessionToken);
+    const rows = await db.select({ id: uploads.id, wrappedKey: uploads.wrappedKey }).from(uploads)
+        .where(and(eq(uploads.ownerId, user.id), isNotNull(uploads.wrappedKey)));
+    const requests = await db.select({ id: fileRequests.id, wrappedKey: fileRequests.wrappedKey }).from(fileRequests)
+        .where(eq(fileRequests.ownerId, user.id));
+    return [...rows.map(({ id, wrappedKey }) => ({ id, wrappedKey: wrappedKey! })), ...requests];
+}
+
+// Adds the key of a file uploaded before the vault, or without it, once the owner has opened it with its link
+export async function StoreFileKey(id: UUID, wrappedKey: string, sessionToken?: string | null): Promise<boolean> {
+    const user = await requireAuth(sessionToken);
+    if (!isWrappedFileKey(wrappedKey)) return false;
+    const updated = await db.update(uploads)
+        .set({ wrappedKey })
+        .where(and(eq(uploads.id, id), eq(uploads.ownerId, user.id), isNull(uploads.wrappedKey)))
+        .returning({ id: uploads.id });
+    return updated.length > 0;
+}
+
+export async function GetFile(id: UUID, sessionToken?: string | null): Promise<FileRecord & { wrappedKey: string | null }> {
     try {
-        await requireAuth(sessionToken);
-        const rows = await db.select().from(uploads).where(eq(uploads.id, id));
+        const user = await requireAuth(sessionToken);
+        const rows = await db.select().from(uploads).where(and(eq(uploads.id, id), eq(uploads.ownerId, user.id)));
         const rec = rows[0];
-        return {
-            originalFileName: rec.originalFileName,
-            mimeType: rec.mimeType,
-            originalSize: rec.originalSize,
-            fileHash: rec.fileHash,
-            uploadParts: rec.uploadParts,
-        };
+        if (!rec) throw new Error("File not found");
+        return { ...(await toFileRecord(rec)), wrappedKey: rec.wrappedKey };
     } catch (error) {
         console.error("Error in GetFile:", error);
         throw error;
     }
 }
 
-async function utDeleteFile(fileId: string | string[], server: UtServerNumber) {
-    if (!fileId) {
-        throw new Error("File ID is required");
+async function toFileRecord(rec: typeof uploads.$inferSelect): Promise<FileRecord> {
+    return {
+        originalFileName: rec.originalFileName,
+        mimeType: rec.mimeType,
+        originalSize: rec.originalSize,
+        fileHash: rec.fileHash,
+        encryption: rec.encryption,
+        compression: rec.compression,
+        sealedDetails: rec.sealedDetails,
+        uploadParts: await Promise.all(rec.uploadParts.map(resolvePartUrl)),
+    };
+}
+
+function toShareInfo(share: Share, collection?: Collection): ShareInfo {
+    return {
+        token: share.id,
+        uploadIds: share.uploadId ? [share.uploadId] : collection?.uploadIds ?? [],
+        collection: share.collectionId !== null,
+        createdAt: share.createdAt,
+        expiresAt: share.expiresAt,
+        maxDownloads: share.maxDownloads,
+        downloads: share.downloads,
+    };
+}
+
+// Same answer for unknown, expired, used up and revoked links, a token tells nothing about the others
+const SHARE_UNAVAILABLE = "This link has expired or is no longer available";
+
+// Base64 of a sealed collection manifest, a few thousand files fit
+const MAX_MANIFEST_LENGTH = 512 * 1024;
+
+function checkShareOptions(options: ShareOptions): Required<ShareOptions> {
+    const { expiresAt = null, maxDownloads = null } = options ?? {};
+    if (maxDownloads !== null && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+        throw new Error("Download limit must be a positive whole number");
     }
-    const response = await utpApis[server].deleteFiles(fileId, { keyType: "fileKey" });
-    if (!response) {
-        throw new Error("Failed to delete file");
+    if (expiresAt !== null && (!(expiresAt instanceof Date) || !(expiresAt.getTime() > Date.now()))) {
+        throw new Error("Expiry must be in the future");
     }
-    return response;
+    return { expiresAt, maxDownloads };
 }
 
-// async function listFiles(server: UtServerNumber) {
-//     const response = await utpApis[server].listFiles();
-//     if (!response) {
-//         throw new Error("Failed to list files");
-//     }
-//     return response;
-// }
\ No newline at end of file
+// Creates a link to one upload that works without a session, the client adds the file key as its fragment
+export async function CreateShare(id: UUID, options: ShareOptions, sessionToken?: string | null): Promise<ShareInfo> {
+    const user = await requireAuth(sessionToken);
+    const limits = checkShareOptions(options);
+    const [upload] = await db.select({ id: uploads.id }).from(uploads).where(and(eq(uploads.id, id), eq(uploads.ownerId, user.id)));
+    if (!upload) throw new Error("File not found");
+    return toShareInfo(await createShare(user.id, { uploadId: upload.id }, limits));
+}
+
+/**
+ * Creates a link to several uploads at once. The client seals the manifest with their file keys
+ * under a fresh collection key, which goes in the link fragment like a file key.
+ * Every file downloaded through the link counts against its download limit.
+ */
+export async function CreateCollection(
+    collectionId: string,
+    uploadIds: string[],
+    manifest: string,
+    options: ShareOptions,
+    sessionToken?: string | null,
+): Promise<ShareInfo> {
+    const user = await requireAuth(sessionToken);
+    checkUploadId(collectionId);
+    const limits = checkShareOptions(options);
+    if (!Array.isArray(uploadIds) || uploadIds.length === 0 || new Set(uploadIds).size !== uploadIds.length) {
+        throw new Error("A collection needs at least one file, each listed once");
+    }
+    if (typeof manifest !== "string" || !manifest || manifest.length > MAX_MANIFEST_LENGTH) {
+        throw new Error("Invalid collection manifest");
+    }
+    const found = await db.select({ id: uploads.id }).from(uploads).where(and(inArray(uploads.id, uploadIds), eq(uploads.ownerId, user.id)));
+    if (found.length !== uploadIds.length) throw new Error("File not found");
+
+    const collection = await createCollection(collectionId, uploadIds, manifest);
+    return toShareInfo(await createShare(user.id, { collectionId: collection.id }, limits), collection);
+}
+
+// Shares of the logged in user that can still be used
+export async function GetShares(sessionToken?: string | null): Promise<ShareInfo[]> {
+    const user = await requireAuth(sessionToken);
+    const active = await listActiveShares(user.id);
+    const members = await getCollections(active.flatMap(share => share.collectionId ? [share.collectionId] : []));
+    return active.map(share => toShareInfo(share, members.find(c => c.id === share.collectionId)));
+}
+
+export async function RevokeShare(token: string, sessionToken?: string | null): Promise<boolean> {
+    const user = await requireAuth(sessionToken);
+    return revokeShare(token, user.id);
+}
+
+function toSharedFileDetails(rec: typeof uploads.$inferSelect): SharedFileDetails {
+    return {
+        originalFileName: rec.originalFileName,
+        mimeType: rec.mimeType,
+        originalSize: rec.originalSize,
+        sealedDetails: rec.sealedDetails,
+    };
+}
+
+// Public: what a share link shows before downloading, does not count as a download
+export async function GetSharedFileDetails(token: string): Promise<SharedFileResult<SharedFileDetails>> {
+    const share = isShareToken(token) ? await getActiveShare(token) : null;
+    const [rec] = share?.uploadId ? await db.select().from(uploads).where(eq(uploads.id, share.uploadId)) : [];
+    if (!rec) return { success: false, error: SHARE_UNAVAILABLE };
+    return { success: true, uploadId: rec.id, file: toSharedFileDetails(rec) };
+}
+
+// Public: the sealed manifest of a collection link and what its files show, does not count as a download
+export async function GetSharedCollection(token: string): Promise<SharedCollectionResult> {
+    const share = isShareToken(token) ? await getActiveShare(token) : null;
+    const [collection] = share?.collectionId ? await getCollections([share.collectionId]) : [];
+    if (!collection) return { success: false, error: SHARE_UNAVAILABLE };
+    // Deleted files drop out of the list, the manifest still names them
+    const rows = await db.select().from(uploads).where(inArray(uploads.id, collection.uploadIds));
+    return {
+        success: true,
+        collectionId: collection.id,
+        manifest: collection.manifest,
+        files: rows.map(rec => ({ uploadId: rec.id, ...toSharedFileDetails(rec) })),
+    };
+}
+
+// The upload a share may download: its own, or the requested one when it is in the shared collection
+async function sharedUploadId(share: Share, requested?: string): Promise<string | null> {
+    if (share.uploadId) return !requested || requested === share.uploadId ? share.uploadId : null;
+    const [collection] = share.collectionId ? await getCollections([share.collectionId]) : [];
+    return requested && collection?.uploadIds.includes(requested) ? requested : null;
+}
+
+/**
+ * Public: everything needed to download the file behind a share link, counted as one download.
+ * Collection links name the file to download. The part URLs stay valid after that,
+ * revoking a share only stops new downloads.
+ */
+export async function GetSharedFile(token: string, uploadId?: string): Promise<SharedFileResult> {
+    try {
+        const share = isShareToken(token) ? await getActiveShare(token) : null;
+        const target = share ? await sharedUploadId(share, uploadId) : null;
+        const [rec] = target ? await db.select().from(uploads).where(eq(uploads.id, target)) : [];
+        if (!rec || !(await claimShareDownload(token))) return { success: false, error: SHARE_UNAVAILABLE };
+        return { success: true, uploadId: rec.id, file: await toFileRecord(rec) };
+    } catch (error) {
+        console.error("Error in GetSharedFile:", error);
+        return { success: false, error: "Could not open the shared file" };
+    }
+}
+
+function toFileRequestInfo(request: FileRequest): FileRequestInfo {
+    return {
+        token: request.id,
+        label: request.label,
+        publicKey: request.publicKey,
+        wrappedKey: request.wrappedKey,
+        sealedPrivateKey: request.sealedPrivateKey,
+        maxFiles: request.maxFiles,
+        maxBytes: request.maxBytes,
+        files: request.files,
+        bytes: request.bytes,
+        createdAt: request.createdAt,
+        expiresAt: request.expiresAt,
+        open: request.closedAt === null && (request.expiresAt === null || request.expiresAt.getTime() > Date.now()),
+    };
+}
+
+const MAX_REQUEST_LABEL_LENGTH = 200;
+// base64(IV||C) of a PKCS#8 P-256 private key is about 210 characters
+const MAX_SEALED_PRIVATE_KEY_LENGTH = 1024;
+
+// Creates a link outsiders can upload files through, the browser makes the key pair with utils/drop.ts
+export async function CreateFileRequest(options: FileRequestOptions, sessionToken?: string | null): Promise<FileRequestInfo> {
+    const user = await requireAuth(sessionToken);
+    const { label, publicKey, wrappedKey, sealedPrivateKey, maxFiles = null, maxBytes = null } = options ?? {};
+    const { expiresAt } = checkShareOptions({ expiresAt: options?.expiresAt });
+    if (typeof label !== "string" || !label.trim() || label.length > MAX_REQUEST_LABEL_LENGTH) {
+        throw new Error(`Label must be 1 to ${MAX_REQUEST_LABEL_LENGTH} characters`);
+    }
+    for (const limit of [maxFiles, maxBytes]) {
+        if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+            throw new Error("Limits must be positive whole numbers");
+        }
+    }
+    if (!isDropPublicKey(publicKey) || !isWrappedFileKey(wrappedKey)
+        || typeof sealedPrivateKey !== "string" || !/^[A-Za-z0-9+/]+={0,2}$/.test(sealedPrivateKey)
+        || sealedPrivateKey.length > MAX_SEALED_PRIVATE_KEY_LENGTH) {
+        throw new Error("Invalid request keys");
+    }
+    return toFileRequestInfo(await createFileRequest({
+        ownerId: user.id,
+        label: label.trim(),
+        publicKey,
+        wrappedKey,
+        sealedPrivateKey,
+        maxFiles,
+        maxBytes,
+        expiresAt,
+    }));
+}
+
+// Every file request of the logged in user, closed ones too, since the files dropped through them need their private keys
+export async function GetFileRequests(sessionToken?: string | null): Promise<FileRequestInfo[]> {
+    const user = await requireAuth(sessionToken);
+    return (await listFileRequests(user.id)).map(toFileRequestInfo);
+}
+
+// Stops a request link from taking more files, what was dropped stays
+export async function CloseFileRequest(token: string, sessionToken?: string | null): Promise<boolean> {
+    const user = await requireAuth(sessionToken);
+    return closeFileRequest(token, user.id);
+}
+
+// Public: what an uploader sees of a request link
+export async function GetFileRequest(token: string): Promise<FileRequestResult> {
+    const request = isShareToken(token) ? await getOpenFileRequest(token) : null;
+    if (!request) return { success: false, error: FILE_REQUEST_UNAVAILABLE };
+    return {
+        success: true,
+        label: request.label,
+        expiresAt: request.expiresAt,
+        remainingFiles: request.maxFiles === null ? null : Math.max(0, request.maxFiles - request.files),
+        remainingBytes: request.maxBytes === null ? null : Math.max(0, request.maxBytes - request.bytes),
+        maxFileBytes: MAX_DROP_BYTES,
+        ...getErasureConfig(),
+    };
+}
+
+// Asks the node holding each copy for its current URL, so nodes can move (e.g. a new MinIO host).
+// Copies on nodes that are no longer configured keep their stored URL.
+async function resolvePartUrl(part: UploadPart, position: number): Promise<UploadPart> {
+    const resolve = async (location: ChunkLocation): Promise<ChunkLocation> => {
+        try {
+            return { ...location, url: await getStorageBackend(location.node).getUrl(location.key) };
+        } catch {
+            return location;
+        }
+    };
+    const [primary, ...replicas] = await Promise.all(partLocations(part, position).map(resolve));
+    return { ...part, node: primary.node, url: primary.url, replicas };
+}
+
+async function storageDeleteFile(fileId: string | string[], nodeId: string) {
+    if (!fileId) {
+        throw new Error("File ID is required");
+    }
+    await getStorageBackend(nodeId).delete(Array.isArray(fileId) ? fileId : [fileId]);
+}
\ No newline at end of file
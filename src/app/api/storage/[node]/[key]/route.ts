@@ -0,0 +1,74 @@
+import { getStorageBackend, LocalStorageBackend, parseRange, StorageBackend } from "@/lib";
+
+// Serves chunks stored by the local filesystem backend, whole or as a single byte range
+export async function GET(request: Request, { params }: { params: Promise<{ node: string; key: string }> }) {
+    const { node, key } = await params;
+    try {
+        const backend = getStorageBackend(node);
+        if (!(backend instanceof LocalStorageBackend)) {
+            return new Response("Not found", { status: 404 });
+        }
+
+        const headers = {
+            "Content-Type": "application/octet-stream",
+            "Cache-Control": "private, max-age=31536000, immutable",
+            "Accept-Ranges": "bytes",
+        };
+        const rangeHeader = request.headers.get("Range");
+        if (rangeHeader) {
+            const size = await backend.size(key);
+            const range = parseRange(rangeHeader, size);
+            if (!range) {
+                return new Response("Range not satisfiable", { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+            }
+            const { bytes } = await backend.readRange(key, range[0], range[1]);
+            return new Response(new Uint8Array(bytes), {
+                status: 206,
+                headers: {
+                    ...headers,
+                    "Content-Length": String(bytes.byteLength),
+                    "Content-Range": `bytes ${range[0]}-${range[0] + bytes.byteLength - 1}/${size}`,
+                },
+            });
+        }
+
+        const data = await backend.download(key);
+        return new Response(new Uint8Array(data), {
+            headers: { ...headers, "Content-Length": String(data.byteLength) },
+        });
+    } catch {
+        return new Response("Not found", { status: 404 });
+    }
+}
+
+// Accepts direct chunk uploads to URLs signed by LocalStorageBackend.createUploadTarget
+export async function PUT(request: Request, { params }: { params: Promise<{ node: string; key: string }> }) {
+    const { node, key } = await params;
+    const query = new URL(request.url).searchParams;
+    const size = Number(query.get("size"));
+    const expires = Number(query.get("expires"));
+    let backend: StorageBackend;
+    try {
+        backend = getStorageBackend(node);
+    } catch {
+        return new Response("Not found", { status: 404 });
+    }
+    if (!(backend instanceof LocalStorageBackend)) {
+        return new Response("Not found", { status: 404 });
+    }
+    if (!backend.verifyUploadSignature(key, size, expires, query.get("signature") ?? "")) {
+        return new Response("Invalid or expired signature", { status: 403 });
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.byteLength !== size) {
+        return new Response(`Expected ${size} bytes, got ${data.byteLength}`, { status: 400 });
+    }
+    try {
+        await backend.write(key, data);
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        console.error(`Direct upload of ${key} to node ${node} failed:`, error);
+        return new Response("Upload failed", { status: 500 });
+    }
+}
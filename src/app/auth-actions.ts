@@ -1,14 +1,15 @@
 "use server";
 
-import { db, loginParameter } from "@/lib";
-import { eq } from "drizzle-orm";
+import { db, loginParameter, uploads, uploadSessions, shares, fileRequests, users, KeyVaultParams, LoginKdf, SessionUser, UserInfo, UserRole, WrappedFileKey, newLoginKdf, isAcceptableLoginKdf, isCurrentLoginKdf, loginDecoySecret } from "@/lib";
+import { and, eq, gt, isNotNull, isNull } from "drizzle-orm";
 import { serverVerify, getPublicParameters } from "@/lib/utils/zkp";
-import { randomUUID } from "crypto";
+import { isWrappedFileKey } from "@/lib/utils/vault";
+import { createHmac, randomBytes, randomUUID } from "crypto";
 
 // In-memory store for login challenges during the login flow
-// Stores: { V: commitment, c: challenge, expiresAt: timestamp }
+// Stores: { userId: account logging in, null for an unknown username, V: commitment, c: challenge, expiresAt: timestamp }
 // In production, you might want to use Redis or a database table with TTL
-const loginChallenges = new Map<string, { V: bigint; c: bigint; expiresAt: number }>();
+const loginChallenges = new Map<string, { userId: string | null; V: bigint; c: bigint; expiresAt: number }>();
 
 // Challenge expiration time: 5 minutes
 const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000;
@@ -17,7 +18,30 @@ const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000;
 const SESSION_EXPIRY_MS = 24 * 60 * 60 * 1000;
 
 // In-memory session store (in production, use Redis or database)
-const sessions = new Map<string, { expiresAt: number }>();
+const sessions = new Map<string, { userId: string; expiresAt: number }>();
+
+// One-time permissions to upgrade the derivation, handed out by a login that found it outdated.
+// Stores: { sessionToken: that login, userId, publicKey: X it proved, expiresAt: timestamp }
+const kdfUpgrades = new Map<string, { sessionToken: string; userId: string; publicKey: string; expiresAt: number }>();
+
+// Upgrade expiration time: 5 minutes, the client upgrades right after logging in
+const KDF_UPGRADE_EXPIRY_MS = 5 * 60 * 1000;
+
+// Invite expiration time: 7 days
+const INVITE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Lower case, so "Alice" and "alice" are one account
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+const USERNAME_RULES = "Usernames are up to 32 letters, digits, dots, dashes or underscores";
+
+// Username the account of a single-user install gets when it is moved to `users`
+const LEGACY_USERNAME = "admin";
+
+// Derivation of accounts registered before it was stored with the public key
+const LEGACY_LOGIN_KDF: LoginKdf = { version: 1, algorithm: "sha256" };
+
+// PBKDF2 work factor for the vault key, OWASP's recommendation for PBKDF2-HMAC-SHA256
+const KEY_VAULT_ITERATIONS = 600_000;
 
 /**
  * Converts a Uint8Array to a BigInt (helper function).
@@ -63,30 +87,171 @@ function cleanupExpiredChallenges() {
       sessions.delete(token);
     }
   }
+  for (const [upgradeToken, data] of kdfUpgrades.entries()) {
+    if (now > data.expiresAt) {
+      kdfUpgrades.delete(upgradeToken);
+    }
+  }
+}
+
+function normalizeUsername(username: unknown): string | null {
+  if (typeof username !== "string") {
+    return null;
+  }
+  const normalized = username.trim().toLowerCase();
+  return USERNAME_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Moves the account of a single-user install into `users` as an admin, together with
+ * everything it owns. Its public key and key vault stay as they are, so it logs in as
+ * "admin" with the same passphrase. Runs on the first auth call after upgrading.
+ */
+async function adoptLegacyAccount(): Promise<void> {
+  const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
+  if (existing.length === 0) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    const [legacy] = await tx.select().from(loginParameter).where(eq(loginParameter.id, 1));
+    if (!legacy) {
+      return;
+    }
+    const [admin] = await tx.insert(users).values({
+      username: LEGACY_USERNAME,
+      role: "admin",
+      publicKey: legacy.publicKey,
+      kdf: legacy.kdf,
+      keyVault: legacy.keyVault,
+    }).onConflictDoNothing().returning({ id: users.id });
+    if (!admin) {
+      throw new Error(`Can not move the existing account, the username "${LEGACY_USERNAME}" is taken`);
+    }
+
+    await tx.update(uploads).set({ ownerId: admin.id }).where(isNull(uploads.ownerId));
+    await tx.update(uploadSessions).set({ ownerId: admin.id }).where(isNull(uploadSessions.ownerId));
+    await tx.update(shares).set({ ownerId: admin.id }).where(isNull(shares.ownerId));
+    await tx.update(fileRequests).set({ ownerId: admin.id }).where(isNull(fileRequests.ownerId));
+    await tx.delete(loginParameter).where(eq(loginParameter.id, 1));
+  });
+}
+
+// A registered account by username, invites that were not used yet do not count
+async function findUser(username: unknown) {
+  const normalized = normalizeUsername(username);
+  if (!normalized) {
+    return null;
+  }
+  await adoptLegacyAccount();
+  const existing = await db.select().from(users)
+    .where(and(eq(users.username, normalized), isNotNull(users.publicKey)))
+    .limit(1);
+  return existing[0] ?? null;
+}
+
+/**
+ * The account a session belongs to. Read on every call, so a changed role applies at once.
+ * @param sessionToken - The session token to verify
+ * @returns Its id, username and role, or null without a valid session
+ */
+export async function getSessionUser(sessionToken: string | null | undefined): Promise<SessionUser | null> {
+  if (!sessionToken || !(await verifySession(sessionToken))) {
+    return null;
+  }
+
+  const { userId } = sessions.get(sessionToken)!;
+  const existing = await db.select({ id: users.id, username: users.username, role: users.role })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return existing[0] ?? null;
+}
+
+// The configured derivation with a salt derived from the username, the same on every call
+function decoyLoginKdf(username: string): LoginKdf {
+  const salt = createHmac("sha256", loginDecoySecret)
+    .update(String(username).trim().toLowerCase())
+    .digest()
+    .subarray(0, 16)
+    .toString("base64");
+  const kdf = newLoginKdf();
+  return kdf.version === 1 ? kdf : { ...kdf, salt };
 }
 
 /**
- * Registration: Store the public key X for the single user.
- * This should be called when the user first sets up their account.
- * Registration is only allowed if no public key exists.
+ * Passphrase derivation of an account, needed before the client can derive x to log in.
+ * @param username - The account logging in
+ * @returns The stored derivation, version 1 for accounts from before it was stored. An unknown
+ *   username gets a decoy that looks like a current account's, so the answer does not tell whether it exists
+ */
+export async function getLoginKdf(username: string): Promise<LoginKdf> {
+  const user = await findUser(username);
+  if (!user) {
+    return decoyLoginKdf(username);
+  }
+  return user.kdf ?? LEGACY_LOGIN_KDF;
+}
+
+/**
+ * Passphrase derivation for a new public key: the configured algorithm and cost with a fresh salt.
+ * Used on registration, passphrase changes and upgrades.
+ */
+export async function createLoginKdf(): Promise<LoginKdf> {
+  return newLoginKdf();
+}
+
+/**
+ * Registration: Store the public key X of a new account.
+ * The first account is created without an invite and becomes the admin. Everyone after that
+ * registers the username an admin invited them under, with the token of the invite.
+ * @param username - The account to register
  * @param publicKeyX - The public key X (as string, since BigInt can't be serialized)
+ * @param kdf - The derivation X was made with, from createLoginKdf
+ * @param inviteToken - The token from the invite link, not needed for the first account
  * @returns Success status
  */
-export async function register(publicKeyX: string): Promise<{ success: boolean; error?: string }> {
+export async function register(
+  username: string,
+  publicKeyX: string,
+  kdf: LoginKdf,
+  inviteToken?: string | null
+): Promise<{ success: boolean; error?: string }> {
   try {
-    // Check if a public key already exists
-    const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
-    
-    if (existing.length > 0) {
-      // Registration not allowed if public key already exists
-      return { success: false, error: "User already registered. Please login to change your passphrase." };
+    if (!isAcceptableLoginKdf(kdf)) {
+      return { success: false, error: "Unsupported passphrase derivation" };
     }
-
-    // Insert new public key
-    await db.insert(loginParameter).values({
-      id: 1,
-      publicKey: publicKeyX,
+    const normalized = normalizeUsername(username);
+    if (!normalized) {
+      return { success: false, error: USERNAME_RULES };
+    }
+    await adoptLegacyAccount();
+
+    // Write transactions run one at a time, so two first registrations can not both become admin
+    const error = await db.transaction(async (tx) => {
+      if (!inviteToken) {
+        const existing = await tx.select({ id: users.id }).from(users).limit(1);
+        if (existing.length > 0) {
+          return "Registration needs an invite. Ask an admin for one.";
+        }
+        await tx.insert(users).values({ username: normalized, role: "admin", publicKey: publicKeyX, kdf });
+        return null;
+      }
+
+      const registered = await tx.update(users)
+        .set({ publicKey: publicKeyX, kdf, inviteToken: null, inviteExpiresAt: null })
+        .where(and(
+          eq(users.username, normalized),
+          eq(users.inviteToken, inviteToken),
+          isNull(users.publicKey),
+          gt(users.inviteExpiresAt, new Date()),
+        ))
+        .returning({ id: users.id });
+      return registered.length > 0 ? null : "This invite is not valid for this username or has expired.";
     });
+    if (error) {
+      return { success: false, error };
+    }
 
     return { success: true };
   } catch (error) {
@@ -97,17 +262,14 @@ export async function register(publicKeyX: string): Promise<{ success: boolean;
 
 /**
  * Login Step 1: Receive commitment V from client, generate and return challenge c.
+ * @param username - The account logging in
  * @param V - The commitment V from the client (as string)
  * @returns The challenge c (as string) and a session ID for step 2
  */
-export async function loginStep1(V: string): Promise<{ success: boolean; challenge?: string; sessionId?: string; error?: string }> {
+export async function loginStep1(username: string, V: string): Promise<{ success: boolean; challenge?: string; sessionId?: string; error?: string }> {
   try {
-    // Check if public key exists
-    const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
-    
-    if (existing.length === 0) {
-      return { success: false, error: "No public key registered. Please register first." };
-    }
+    // An unknown username gets a challenge too and fails in step 2 like a wrong passphrase
+    const user = await findUser(username);
 
     const { q } = getPublicParameters();
     
@@ -117,6 +279,7 @@ export async function loginStep1(V: string): Promise<{ success: boolean; challen
     // Store V and c with expiration
     const sessionId = randomUUID();
     loginChallenges.set(sessionId, {
+      userId: user?.id ?? null,
       V: BigInt(V),
       c: c,
       expiresAt: Date.now() + CHALLENGE_EXPIRY_MS,
@@ -140,9 +303,11 @@ export async function loginStep1(V: string): Promise<{ success: boolean; challen
  * Login Step 2: Receive response b from client, verify the proof, and create session.
  * @param sessionId - The session ID from step 1
  * @param b - The response b from the client (as string)
- * @returns Success status and session token if verification succeeds
+ * @returns Success status and session token if verification succeeds. `upgradeToken` asks the
+ *   client to move the account to the current derivation with upgradeLoginKdf while it has the passphrase,
+ *   it can be used once, by this session, within 5 minutes.
  */
-export async function loginStep2(sessionId: string, b: string): Promise<{ success: boolean; sessionToken?: string; error?: string }> {
+export async function loginStep2(sessionId: string, b: string): Promise<{ success: boolean; sessionToken?: string; upgradeToken?: string; error?: string }> {
   try {
     // Retrieve stored V and c
     const challengeData = loginChallenges.get(sessionId);
@@ -157,39 +322,51 @@ export async function loginStep2(sessionId: string, b: string): Promise<{ succes
       return { success: false, error: "Challenge expired. Please try logging in again." };
     }
 
-    // Get public key from database
-    const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
-    
-    if (existing.length === 0) {
-      loginChallenges.delete(sessionId);
-      return { success: false, error: "No public key registered." };
-    }
+    // Get public key of the account from database, none for an unknown username
+    const [account] = challengeData.userId
+      ? await db.select().from(users).where(eq(users.id, challengeData.userId)).limit(1)
+      : [];
 
-    const X = existing[0].publicKey;
+    const X = account?.publicKey;
     const V = challengeData.V;
     const c = challengeData.c;
 
     // Verify the proof using serverVerify
-    const isValid = serverVerify(V, X, c, b);
+    const isValid = !!X && serverVerify(V, X, c, b);
 
     // Remove challenge data (one-time use)
     loginChallenges.delete(sessionId);
 
-    if (!isValid) {
-      return { success: false, error: "Authentication failed. Invalid proof." };
+    // The same answer for a wrong passphrase and an account that does not exist
+    if (!account || !isValid) {
+      return { success: false, error: "Wrong username or passphrase." };
     }
 
     // Create session token
     const sessionToken = randomUUID();
     sessions.set(sessionToken, {
+      userId: account.id,
       expiresAt: Date.now() + SESSION_EXPIRY_MS,
     });
 
+    // Only a login that just proved the passphrase may replace the public key with one from the same passphrase
+    let upgradeToken: string | undefined;
+    if (!isCurrentLoginKdf(account.kdf ?? LEGACY_LOGIN_KDF)) {
+      upgradeToken = randomBytes(24).toString("base64url");
+      kdfUpgrades.set(upgradeToken, {
+        sessionToken,
+        userId: account.id,
+        publicKey: X,
+        expiresAt: Date.now() + KDF_UPGRADE_EXPIRY_MS,
+      });
+    }
+
     cleanupExpiredChallenges();
 
     return {
       success: true,
       sessionToken,
+      upgradeToken,
     };
   } catch (error) {
     console.error("Login step 2 error:", error);
@@ -231,15 +408,103 @@ export async function logout(sessionToken: string): Promise<void> {
 }
 
 /**
- * Change passphrase: Update the public key for the authenticated user.
+ * Upgrade: Replace the public key with one derived from the same passphrase under the current derivation.
+ * Needs the upgrade token of the login that reported it, so a session alone can not set a new
+ * passphrase; that is what changePassphrase is for. The passphrase stays, so sessions stay valid.
+ * @param sessionToken - The session token of that login
+ * @param upgradeToken - The `upgradeToken` from loginStep2, used up by this call
+ * @param newPublicKeyX - The public key X derived with `kdf` (as string)
+ * @param kdf - The new derivation, from createLoginKdf
+ * @returns Success status
+ */
+export async function upgradeLoginKdf(
+  sessionToken: string | null | undefined,
+  upgradeToken: string,
+  newPublicKeyX: string,
+  kdf: LoginKdf
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await getSessionUser(sessionToken);
+    if (!user) {
+      return { success: false, error: "Invalid or expired session. Please login again." };
+    }
+
+    // One-time use, whatever the outcome
+    const upgrade = kdfUpgrades.get(upgradeToken);
+    kdfUpgrades.delete(upgradeToken);
+    if (!upgrade || upgrade.sessionToken !== sessionToken || upgrade.userId !== user.id || Date.now() > upgrade.expiresAt) {
+      return { success: false, error: "Invalid or expired upgrade. Please login again." };
+    }
+    if (!isAcceptableLoginKdf(kdf)) {
+      return { success: false, error: "Unsupported passphrase derivation" };
+    }
+
+    const existing = await db.select().from(users).where(eq(users.id, user.id)).limit(1);
+    if (existing.length === 0 || isCurrentLoginKdf(existing[0].kdf ?? LEGACY_LOGIN_KDF)) {
+      return { success: false, error: "The passphrase derivation is already current" };
+    }
+
+    // Only replaces the key the login proved, a passphrase changed in between is left alone
+    const upgraded = await db.update(users)
+      .set({ publicKey: newPublicKeyX, kdf })
+      .where(and(eq(users.id, user.id), eq(users.publicKey, upgrade.publicKey)))
+      .returning({ id: users.id });
+    if (upgraded.length === 0) {
+      return { success: false, error: "The passphrase changed since this login" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Passphrase derivation upgrade error:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to upgrade passphrase derivation" };
+  }
+}
+
+/**
+ * Key vault parameters: How the client derives its vault key from the passphrase.
+ * The salt is created on the first call, so accounts from before the vault get one too.
+ * @param sessionToken - The session token to verify authentication
+ * @returns The parameters, or null without a valid session
+ */
+export async function getKeyVault(sessionToken: string | null | undefined): Promise<KeyVaultParams | null> {
+  const user = await getSessionUser(sessionToken);
+  if (!user) {
+    return null;
+  }
+
+  const existing = await db.select().from(users).where(eq(users.id, user.id)).limit(1);
+  if (existing.length === 0) {
+    return null;
+  }
+  if (existing[0].keyVault) {
+    return existing[0].keyVault;
+  }
+
+  const keyVault: KeyVaultParams = {
+    kdf: "pbkdf2-sha256",
+    salt: randomBytes(16).toString("base64"),
+    iterations: KEY_VAULT_ITERATIONS,
+  };
+  await db.update(users).set({ keyVault }).where(eq(users.id, user.id));
+  return keyVault;
+}
+
+/**
+ * Change passphrase: Update the public key of the authenticated user.
  * Requires a valid session token to prevent unauthorized changes.
+ * The vault key changes with the passphrase, so every wrapped file key has to come
+ * back re-wrapped under the new one, and so does the request key of every file request link;
+ * they are all replaced together with the public key.
  * @param sessionToken - The session token to verify authentication
  * @param newPublicKeyX - The new public key X (as string)
+ * @param kdf - The derivation X was made with, from createLoginKdf
+ * @param rewrappedKeys - Every key in the user's vault, wrapped under the new vault key
  * @returns Success status
  */
 export async function changePassphrase(
   sessionToken: string | null | undefined,
-  newPublicKeyX: string
+  newPublicKeyX: string,
+  kdf: LoginKdf,
+  rewrappedKeys: WrappedFileKey[] = []
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Verify session token
@@ -247,25 +512,50 @@ export async function changePassphrase(
       return { success: false, error: "Authentication required" };
     }
 
-    const isValid = await verifySession(sessionToken);
-    if (!isValid) {
+    const user = await getSessionUser(sessionToken);
+    if (!user) {
       return { success: false, error: "Invalid or expired session. Please login again." };
     }
 
-    // Check if a public key exists
-    const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
-    
-    if (existing.length === 0) {
-      return { success: false, error: "No public key found. Please register first." };
+    if (!isAcceptableLoginKdf(kdf)) {
+      return { success: false, error: "Unsupported passphrase derivation" };
+    }
+    if (!rewrappedKeys.every(({ wrappedKey }) => isWrappedFileKey(wrappedKey))) {
+      return { success: false, error: "Invalid wrapped file key" };
     }
 
-    // Update the public key
-    await db.update(loginParameter)
-      .set({ publicKey: newPublicKeyX })
-      .where(eq(loginParameter.id, 1));
+    // Update the public key and the wrapped file keys at once, a key left under the old vault key would be lost
+    const error = await db.transaction(async (tx) => {
+      const wrapped = await tx.select({ id: uploads.id }).from(uploads)
+        .where(and(eq(uploads.ownerId, user.id), isNotNull(uploads.wrappedKey)));
+      const requests = await tx.select({ id: fileRequests.id }).from(fileRequests).where(eq(fileRequests.ownerId, user.id));
+      const rewrapped = new Map(rewrappedKeys.map(({ id, wrappedKey }) => [id, wrappedKey]));
+      const expected = [...wrapped, ...requests];
+      if (rewrapped.size !== expected.length || expected.some(({ id }) => !rewrapped.has(id))) {
+        return "Files were added or removed while changing the passphrase. Please try again.";
+      }
+
+      for (const { id } of wrapped) {
+        await tx.update(uploads).set({ wrappedKey: rewrapped.get(id)! }).where(eq(uploads.id, id));
+      }
+      for (const { id } of requests) {
+        await tx.update(fileRequests).set({ wrappedKey: rewrapped.get(id)! }).where(eq(fileRequests.id, id));
+      }
+      await tx.update(users)
+        .set({ publicKey: newPublicKeyX, kdf })
+        .where(eq(users.id, user.id));
+      return null;
+    });
+    if (error) {
+      return { success: false, error };
+    }
 
-    // Invalidate all sessions to force re-login with new passphrase
-    sessions.clear();
+    // Invalidate every session of the account to force re-login with new passphrase
+    for (const [token, session] of sessions.entries()) {
+      if (session.userId === user.id) {
+        sessions.delete(token);
+      }
+    }
 
     return { success: true };
   } catch (error) {
@@ -275,15 +565,93 @@ export async function changePassphrase(
 }
 
 /**
- * Check if a public key is registered.
- * @returns True if a public key exists, false otherwise
+ * Check if any account exists. Until one does, the first registration needs no invite.
+ * @returns True if an account or invite exists, false otherwise
  */
 export async function isRegistered(): Promise<boolean> {
   try {
-    const existing = await db.select().from(loginParameter).where(eq(loginParameter.id, 1)).limit(1);
+    await adoptLegacyAccount();
+    const existing = await db.select({ id: users.id }).from(users).limit(1);
     return existing.length > 0;
   } catch (error) {
     console.error("Error checking registration:", error);
     return false;
   }
 }
+
+/**
+ * Invite: Create an account for a username that its owner registers with the returned token.
+ * Inviting a username that has not registered yet renews its invite.
+ * @param sessionToken - The session token of an admin
+ * @param username - The username to invite
+ * @param role - The role the account gets
+ * @returns The invite token, valid for a week
+ */
+export async function inviteUser(
+  sessionToken: string | null | undefined,
+  username: string,
+  role: UserRole = "member"
+): Promise<{ success: boolean; inviteToken?: string; error?: string }> {
+  try {
+    const admin = await getSessionUser(sessionToken);
+    if (admin?.role !== "admin") {
+      return { success: false, error: "Only admins can invite users" };
+    }
+    const normalized = normalizeUsername(username);
+    if (!normalized) {
+      return { success: false, error: USERNAME_RULES };
+    }
+    if (role !== "admin" && role !== "member") {
+      return { success: false, error: "Unknown role" };
+    }
+
+    const inviteToken = randomBytes(24).toString("base64url");
+    const inviteExpiresAt = new Date(Date.now() + INVITE_EXPIRY_MS);
+    const invited = await db.insert(users)
+      .values({ username: normalized, role, inviteToken, inviteExpiresAt })
+      .onConflictDoUpdate({
+        target: users.username,
+        set: { role, inviteToken, inviteExpiresAt },
+        setWhere: isNull(users.publicKey),
+      })
+      .returning({ id: users.id });
+    if (invited.length === 0) {
+      return { success: false, error: "That username is already registered" };
+    }
+
+    return { success: true, inviteToken };
+  } catch (error) {
+    console.error("Invite error:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to invite user" };
+  }
+}
+
+/**
+ * List users: Every account and open invite, for admins.
+ * @param sessionToken - The session token of an admin
+ * @returns The accounts, oldest first
+ */
+export async function listUsers(sessionToken: string | null | undefined): Promise<{ success: boolean; users?: UserInfo[]; error?: string }> {
+  try {
+    const admin = await getSessionUser(sessionToken);
+    if (admin?.role !== "admin") {
+      return { success: false, error: "Only admins can list users" };
+    }
+
+    const rows = await db.select().from(users).orderBy(users.createdAt);
+    return {
+      success: true,
+      users: rows.map((row) => ({
+        id: row.id,
+        username: row.username,
+        role: row.role,
+        registered: row.publicKey !== null,
+        inviteExpiresAt: row.inviteExpiresAt,
+        createdAt: row.createdAt,
+      })),
+    };
+  } catch (error) {
+    console.error("List users error:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to list users" };
+  }
+}
@@ -1,8 +1,11 @@
 "use client";
 
 import { useState, useEffect } from 'react';
-import { register, loginStep1, loginStep2, isRegistered, verifySession, logout, changePassphrase } from './auth-actions';
+import { register, loginStep1, loginStep2, isRegistered, verifySession, logout, changePassphrase, getKeyVault, getLoginKdf, createLoginKdf, upgradeLoginKdf, getSessionUser, inviteUser, listUsers } from './auth-actions';
+import { GetWrappedKeys } from './actions';
 import { generatePublicKey, clientLoginStep1, clientLoginStep2 } from '@/lib/utils/zkp';
+import { clearVaultKey, deriveVaultKey, loadVaultKey, rewrapFileKeys, saveVaultKey } from '@/lib/utils/vault';
+import { SessionUser, UserInfo, UserRole } from '@/lib';
 
 const SESSION_TOKEN_KEY = 'fanacrypt_session_token';
 
@@ -11,6 +14,10 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [showRegistration, setShowRegistration] = useState(false);
   const [showChangePassphrase, setShowChangePassphrase] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [isFirstAccount, setIsFirstAccount] = useState(false);
+  const [invite, setInvite] = useState<{ username: string; token: string } | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -19,11 +26,31 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
     checkAuthStatus();
   }, []);
 
+  // The account is looked up again after every login, its role decides what is shown
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setUser(null);
+      return;
+    }
+    getSessionUser(localStorage.getItem(SESSION_TOKEN_KEY)).then(setUser).catch((err) => {
+      console.error('Failed to load account:', err);
+    });
+  }, [isAuthenticated]);
+
   const checkAuthStatus = async () => {
     setIsChecking(true);
     try {
-      // Check if user is registered
+      // Invite links carry the username and the invite token
+      const params = new URLSearchParams(window.location.search);
+      const inviteToken = params.get('invite');
+      if (inviteToken) {
+        setInvite({ username: params.get('user') ?? '', token: inviteToken });
+        setShowRegistration(true);
+      }
+
+      // Check if anyone is registered, the first account needs no invite
       const registered = await isRegistered();
+      setIsFirstAccount(!registered);
 
       if (registered) {
         // Check if session token exists and is valid
@@ -34,6 +61,7 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
             setIsAuthenticated(true);
           } else {
             localStorage.removeItem(SESSION_TOKEN_KEY);
+            await clearVaultKey();
           }
         }
       } else {
@@ -47,20 +75,25 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
     }
   };
 
-  const handleRegister = async (passphrase: string) => {
+  const handleRegister = async (username: string, passphrase: string, inviteToken: string) => {
     setLoading(true);
     setError(null);
     try {
-      // Generate public key from passphrase
-      const X = await generatePublicKey(passphrase);
+      // Generate public key from passphrase, salted and stretched as the server asks
+      const kdf = await createLoginKdf();
+      const X = await generatePublicKey(passphrase, kdf);
       
       // Register with server
-      const result = await register(X.toString());
+      const result = await register(username, X.toString(), kdf, inviteToken || null);
       
       if (result.success) {
         setShowRegistration(false);
+        setIsFirstAccount(false);
+        setInvite(null);
+        // The invite is used up, keep it out of the address bar and history
+        window.history.replaceState(null, '', window.location.pathname);
         // After registration, automatically log in
-        await handleLogin(passphrase);
+        await handleLogin(username, passphrase);
       } else {
         setError(result.error || 'Registration failed');
       }
@@ -72,15 +105,18 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
     }
   };
 
-  const handleLogin = async (passphrase: string) => {
+  const handleLogin = async (username: string, passphrase: string) => {
     setLoading(true);
     setError(null);
     try {
+      // The salt and cost x was derived with are stored with the account
+      const kdf = await getLoginKdf(username);
+
       // Step 1: Client generates commitment V
-      const { x, v, V } = await clientLoginStep1(passphrase);
+      const { x, v, V } = await clientLoginStep1(passphrase, kdf);
       
       // Send V to server and get challenge c
-      const step1Result = await loginStep1(V.toString());
+      const step1Result = await loginStep1(username, V.toString());
       
       if (!step1Result.success || !step1Result.challenge || !step1Result.sessionId) {
         setError(step1Result.error || 'Login step 1 failed');
@@ -97,6 +133,30 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
       if (step2Result.success && step2Result.sessionToken) {
         // Store session token
         localStorage.setItem(SESSION_TOKEN_KEY, step2Result.sessionToken);
+
+        // Move the account to the current derivation, only possible now that the passphrase is known to be right
+        if (step2Result.upgradeToken) {
+          const next = await createLoginKdf();
+          const upgraded = await upgradeLoginKdf(
+            step2Result.sessionToken,
+            step2Result.upgradeToken,
+            (await generatePublicKey(passphrase, next)).toString(),
+            next
+          );
+          if (!upgraded.success) {
+            // Logging in still works, the account keeps its weaker derivation until the next login tries again
+            console.error('Passphrase derivation upgrade failed:', upgraded.error);
+            alert(`Your passphrase could not be moved to the stronger derivation (${upgraded.error}). It will be tried again on your next login.`);
+          }
+        }
+
+        // Unlock the key vault while the passphrase is at hand, it is not kept anywhere
+        const keyVault = await getKeyVault(step2Result.sessionToken);
+        if (keyVault) {
+          await saveVaultKey(await deriveVaultKey(passphrase, keyVault)).catch((err) => {
+            console.warn('Key vault could not be stored, files will need their links:', err);
+          });
+        }
         setIsAuthenticated(true);
         setError(null);
       } else {
@@ -116,6 +176,7 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
       await logout(sessionToken);
       localStorage.removeItem(SESSION_TOKEN_KEY);
     }
+    await clearVaultKey();
     setIsAuthenticated(false);
   };
 
@@ -137,18 +198,36 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
     setLoading(true);
     setError(null);
     try {
-      // Generate new public key from new passphrase
-      const newX = await generatePublicKey(newPassphrase);
+      // Generate new public key from new passphrase, with a fresh salt
+      const kdf = await createLoginKdf();
+      const newX = await generatePublicKey(newPassphrase, kdf);
       
       // Get session token
       const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+
+      // Re-wrap every file key in the vault under the key of the new passphrase
+      const [wrappedKeys, keyVault, vaultKey] = await Promise.all([
+        GetWrappedKeys(sessionToken),
+        getKeyVault(sessionToken),
+        loadVaultKey(),
+      ]);
+      if (!keyVault) {
+        throw new Error('Invalid or expired session. Please login again.');
+      }
+      if (wrappedKeys.length > 0 && !vaultKey) {
+        throw new Error('The key vault is locked in this browser. Please login again before changing your passphrase.');
+      }
+      const rewrappedKeys = vaultKey
+        ? await rewrapFileKeys(vaultKey, await deriveVaultKey(newPassphrase, keyVault), wrappedKeys)
+        : [];
       
       // Change passphrase (requires authentication)
-      const result = await changePassphrase(sessionToken, newX.toString());
+      const result = await changePassphrase(sessionToken, newX.toString(), kdf, rewrappedKeys);
       
       if (result.success) {
         // Clear session and force re-login
         localStorage.removeItem(SESSION_TOKEN_KEY);
+        await clearVaultKey();
         setIsAuthenticated(false);
         setShowChangePassphrase(false);
         setError(null);
@@ -169,6 +248,19 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
     return (
       <div>
         <div className="fixed top-4 right-4 z-50 flex gap-2">
+          {user && (
+            <span className="px-4 py-2 bg-neutral-800 border border-gray-700 text-gray-200 rounded-md">
+              👤 {user.username}
+            </span>
+          )}
+          {user?.role === 'admin' && (
+            <button
+              onClick={() => setShowUsers(true)}
+              className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-white rounded-md transition"
+            >
+              👥 Users
+            </button>
+          )}
           <button
             onClick={() => setShowChangePassphrase(true)}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition"
@@ -194,6 +286,10 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
             error={error}
           />
         )}
+
+        {showUsers && (
+          <UsersModal onClose={() => setShowUsers(false)} />
+        )}
         
         {children}
       </div>
@@ -208,7 +304,7 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
           🔐 Fanacrypt
         </h1>
         <p className="text-gray-400 text-center mb-6">
-          {showRegistration ? 'Create your account' : 'Login to continue'}
+          {showRegistration ? (isFirstAccount ? 'Create the admin account' : 'Create your account') : 'Login to continue'}
         </p>
 
         {error && (
@@ -219,7 +315,9 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
 
         <AuthForm
           mode={showRegistration ? 'register' : 'login'}
-          onSubmit={showRegistration ? handleRegister : handleLogin}
+          onSubmit={showRegistration ? handleRegister : (username, passphrase) => handleLogin(username, passphrase)}
+          needsInvite={!isFirstAccount}
+          invite={invite}
           loading={loading}
           onToggleMode={() => {
             setShowRegistration(!showRegistration);
@@ -234,22 +332,34 @@ export default function AuthWrapper({ children }: { children: React.ReactNode })
 function AuthForm({
   mode,
   onSubmit,
+  needsInvite,
+  invite,
   loading,
   onToggleMode,
 }: {
   mode: 'register' | 'login';
-  onSubmit: (passphrase: string) => Promise<void>;
+  onSubmit: (username: string, passphrase: string, inviteToken: string) => Promise<void>;
+  needsInvite: boolean;
+  invite: { username: string; token: string } | null;
   loading: boolean;
   onToggleMode: () => void;
 }) {
+  const [username, setUsername] = useState(invite?.username ?? '');
+  const [inviteToken, setInviteToken] = useState(invite?.token ?? '');
   const [passphrase, setPassphrase] = useState('');
   const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const [showPassword, setShowPassword] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    if (!username.trim()) {
+      return;
+    }
     if (mode === 'register') {
+      if (needsInvite && !inviteToken.trim()) {
+        return;
+      }
       if (passphrase.length < 8) {
         return;
       }
@@ -262,11 +372,46 @@ function AuthForm({
       }
     }
 
-    await onSubmit(passphrase);
+    await onSubmit(username.trim(), passphrase, inviteToken.trim());
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
+          Username
+        </label>
+        <input
+          id="username"
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="w-full px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Enter your username"
+          disabled={loading}
+          required
+        />
+      </div>
+
+      {mode === 'register' && needsInvite && (
+        <div>
+          <label htmlFor="inviteToken" className="block text-sm font-medium text-gray-300 mb-2">
+            Invite Code
+          </label>
+          <input
+            id="inviteToken"
+            type="text"
+            value={inviteToken}
+            onChange={(e) => setInviteToken(e.target.value)}
+            className="w-full px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="From the invite link an admin sent you"
+            disabled={loading}
+            required
+          />
+        </div>
+      )}
+
       <div>
         <label htmlFor="passphrase" className="block text-sm font-medium text-gray-300 mb-2">
           Passphrase
@@ -346,7 +491,7 @@ function AuthForm({
           onClick={onToggleMode}
           className="text-sm text-blue-400 hover:text-blue-300"
         >
-          {mode === 'register' ? 'Already set a passphrase? Login' : "No passphrase yet? Register"}
+          {mode === 'register' ? 'Already registered? Login' : 'Have an invite? Register'}
         </button>
       </div>
     </form>
@@ -491,3 +636,136 @@ function ChangePassphraseModal({
   );
 }
 
+
+function UsersModal({ onClose }: { onClose: () => void }) {
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<UserRole>('member');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadUsers = async () => {
+    const result = await listUsers(localStorage.getItem(SESSION_TOKEN_KEY));
+    if (result.success && result.users) {
+      setUsers(result.users);
+    } else {
+      setError(result.error || 'Failed to load users');
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  // The link carries the token, send it to the new user only
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setInviteLink(null);
+    try {
+      const result = await inviteUser(localStorage.getItem(SESSION_TOKEN_KEY), username, role);
+      if (result.success && result.inviteToken) {
+        const params = new URLSearchParams({ user: username.trim().toLowerCase(), invite: result.inviteToken });
+        setInviteLink(`${window.location.origin}/?${params}`);
+        setUsername('');
+        setRole('member');
+        await loadUsers();
+      } else {
+        setError(result.error || 'Failed to invite user');
+      }
+    } catch (err) {
+      console.error('Invite error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to invite user');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-neutral-900 rounded-lg shadow-lg p-8 border border-gray-700 max-w-lg w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-100">👥 Users</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200"
+            disabled={loading}
+          >
+            ✕
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 rounded text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-6 divide-y divide-gray-700 text-sm">
+          {users.map((u) => (
+            <div key={u.id} className="flex justify-between py-2 text-gray-300">
+              <span className="text-gray-100">{u.username}</span>
+              <span className="text-gray-400">
+                {u.role}
+                {!u.registered && ` · invited${u.inviteExpiresAt ? ` until ${new Date(u.inviteExpiresAt).toLocaleDateString()}` : ''}`}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleInvite} className="space-y-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="flex-1 px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Username to invite"
+              disabled={loading}
+              required
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              className="px-2 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-100"
+              disabled={loading}
+            >
+              <option value="member">Member</option>
+              <option value="admin">Admin</option>
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={loading || !username.trim()}
+            className={`w-full px-4 py-2 rounded-md text-white font-medium transition ${
+              loading || !username.trim() ? 'bg-gray-700 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {loading ? 'Inviting...' : 'Invite'}
+          </button>
+        </form>
+
+        {inviteLink && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-gray-400">Send this link to the new user. It works once and expires in a week.</p>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={inviteLink}
+                className="flex-1 px-2 py-1 bg-neutral-800 border border-gray-700 rounded text-gray-100 text-xs"
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(inviteLink)}
+                className="px-3 py-1 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 text-sm"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
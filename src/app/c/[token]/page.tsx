@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useRef, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { GetSharedCollection, GetSharedFile } from '../../actions';
+import { FileDetails, SharedCollectionResult } from '@/lib';
+import { fromBase64 } from '@/lib/utils/crypto';
+import { openDownloadSink, PlaintextSink, saveFile } from '@/lib/utils/download';
+import { formatBytes } from '@/lib/utils/format';
+import { importLinkKey, isProtectedLinkKey } from '@/lib/utils/links';
+import { openManifest } from '@/lib/utils/manifest';
+import { readFileDetails } from '@/lib/utils/metadata';
+
+type SharedCollection = Extract<SharedCollectionResult, { success: true }>;
+
+type CollectionFile = {
+  uploadId: string;
+  key: CryptoKey;
+  details: FileDetails;
+};
+
+// Public page of a collection link, /c/<token>#<key>. The key in the fragment opens the
+// manifest, which holds the key of every file in the collection.
+export default function SharedCollectionPage() {
+  const { token } = useParams<{ token: string }>();
+  const [files, setFiles] = useState<CollectionFile[] | null>(null);
+  const [missing, setMissing] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [phaseMessage, setPhaseMessage] = useState('');
+  const [isDownloading, setIsDownloading] = useState<string | null>(null); // Upload id, or 'all'
+  const [locked, setLocked] = useState<SharedCollection | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // Use ref to prevent duplicate execution in React StrictMode
+  const hasInitialized = useRef(false);
+
+  useEffect(() => {
+    if (hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    openCollection();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getFragmentKey = (): string => {
+    const fragmentKey = window.location.hash.slice(1);
+    if (!fragmentKey) throw new Error('This link is missing its key, ask for the complete link');
+    return fragmentKey;
+  };
+
+  // Opens the manifest and the details of every file still in the collection
+  const openFiles = async (shared: SharedCollection, collectionKey: CryptoKey) => {
+    const manifest = await openManifest(collectionKey, shared.collectionId, shared.manifest).catch(() => {
+      throw new Error('The key in this link does not open this collection');
+    });
+    const opened = await Promise.all(manifest.files.map(async ({ uploadId, key: keyB64 }) => {
+      const file = shared.files.find((f) => f.uploadId === uploadId);
+      if (!file) return null;
+      const key = await crypto.subtle.importKey('raw', fromBase64(keyB64), { name: 'AES-GCM' }, false, ['decrypt']);
+      return { uploadId, key, details: await readFileDetails(uploadId, file, key) };
+    }));
+    const available = opened.filter((f): f is CollectionFile => f !== null);
+    setMissing(manifest.files.length - available.length);
+    setFiles(available);
+  };
+
+  // Lists what the link holds, this does not count as a download
+  const openCollection = async () => {
+    try {
+      const shared = await GetSharedCollection(token);
+      if (!shared.success) throw new Error(shared.error);
+      if (isProtectedLinkKey(getFragmentKey())) {
+        setLocked(shared);
+        return;
+      }
+      await openFiles(shared, await importLinkKey(getFragmentKey()));
+    } catch (error) {
+      console.error('Opening collection failed:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Could not open this link.');
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!locked) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await openFiles(locked, await importLinkKey(getFragmentKey(), passphrase));
+      setLocked(null);
+      setPassphrase('');
+    } catch (error) {
+      setError(error instanceof Error && error.message ? error.message : 'Could not unlock this link.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Each file downloaded counts against the link's download limit
+  const downloadFile = async (file: CollectionFile, allowPicker: boolean) => {
+    let sink: PlaintextSink | null = null;
+    try {
+      // The save dialog needs the click that started this, so open it before fetching metadata
+      sink = await openDownloadSink(file.details.filename, file.details.mime, file.details.size, { allowPicker });
+
+      setPhaseMessage(`Fetching metadata of ${file.details.filename}...`);
+      const shared = await GetSharedFile(token, file.uploadId);
+      if (!shared.success) throw new Error(shared.error);
+
+      // Fetch, verify and decrypt chunk by chunk straight into the sink, which saveFile aborts on failure
+      const opened = sink;
+      sink = null;
+      await saveFile(shared.uploadId, shared.file, file.key, opened, (written, total) => {
+        setPhaseMessage(`Downloading ${file.details.filename}: ${formatBytes(written)} of ${formatBytes(total)} (${total > 0 ? Math.floor((written / total) * 100) : 100}%)`);
+      });
+    } catch (error) {
+      await sink?.abort(error).catch(() => {});
+      throw error;
+    }
+  };
+
+  const handleDownload = async (file: CollectionFile) => {
+    setIsDownloading(file.uploadId);
+    setError(null);
+    try {
+      await downloadFile(file, true);
+      setPhaseMessage('Download complete.');
+    } catch (error) {
+      console.error('Download failed:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Download failed.');
+      setPhaseMessage('');
+    } finally {
+      setIsDownloading(null);
+    }
+  };
+
+  // One file after another; a save dialog per file would need a click each, so they go to the downloads folder
+  const handleDownloadAll = async () => {
+    if (!files) return;
+    setIsDownloading('all');
+    setError(null);
+    try {
+      for (const file of files) await downloadFile(file, false);
+      setPhaseMessage(`Downloaded ${files.length} file(s).`);
+    } catch (error) {
+      console.error('Download failed:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Download failed.');
+      setPhaseMessage('');
+    } finally {
+      setIsDownloading(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-950 p-6 w-screen">
+      <div className="mx-auto max-w-2xl">
+        <h1 className="text-2xl font-bold text-gray-100 mb-6">📚 Shared Files</h1>
+        <div className="bg-neutral-950 rounded-lg shadow-lg p-6 border border-gray-700 space-y-4">
+          {files ? (
+            <>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-400">
+                  {files.length} file(s) · {formatBytes(files.reduce((n, f) => n + f.details.size, 0))}
+                  {missing > 0 && ` · ${missing} no longer available`}
+                </span>
+                <button
+                  onClick={handleDownloadAll}
+                  disabled={isDownloading !== null || files.length === 0}
+                  className="px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isDownloading === 'all' ? 'Downloading...' : '⬇️ Download all'}
+                </button>
+              </div>
+              <div className="divide-y divide-gray-700">
+                {files.map((file) => (
+                  <div key={file.uploadId} className="flex justify-between items-center py-2">
+                    <div className="min-w-0">
+                      <div className="text-gray-100 truncate">{file.details.filename}</div>
+                      <div className="text-xs text-gray-400">{file.details.mime || 'Unknown type'} · {formatBytes(file.details.size)}</div>
+                    </div>
+                    <button
+                      onClick={() => handleDownload(file)}
+                      disabled={isDownloading !== null}
+                      className="ml-4 text-blue-400 hover:text-blue-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isDownloading === file.uploadId ? 'Downloading...' : '⬇️ Download'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {phaseMessage && <div className="text-sm text-gray-400">{phaseMessage}</div>}
+            </>
+          ) : locked ? (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              <div className="text-sm text-gray-300">🔐 This link is protected. Enter the passphrase you were given with it.</div>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoFocus
+                className="w-full bg-neutral-800 text-gray-100 px-3 py-2 rounded border border-gray-700"
+              />
+              <button
+                type="submit"
+                disabled={isUnlocking || !passphrase}
+                className="px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUnlocking ? 'Unlocking...' : '🔓 Unlock'}
+              </button>
+            </form>
+          ) : !error && (
+            <div className="text-gray-400">Opening link...</div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 bg-red-900/50 border border-red-700 rounded-md px-4 py-2 text-red-200 text-sm">
+              <span>⚠️</span>
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
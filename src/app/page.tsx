@@ -1,11 +1,24 @@
 "use client";
 
 import { useState, useRef, useEffect } from 'react';
-import { UploadEncrypted, GetAllFiles, DeleteFile, GetFile } from './actions';
-import { UploadPart } from '@/lib';
+import { PrepareUpload, ConfirmChunk, FinalizeUpload, ResumeUpload, GetUploadSessions, AbortUpload, GetAllFiles, DeleteFile, GetFile, GetUploadConfig, GetNodeUsage, ScrubFiles, CollectOrphans, StoreFileKey, CreateShare, GetShares, RevokeShare, CreateCollection, CreateFileRequest, GetFileRequests, CloseFileRequest } from './actions';
+import { CompressionInfo, DirectUploadPlan, FileHealth, FileRequestInfo, NodeUsage, ShareInfo, UploadConfig, UploadPart, UploadSessionInfo } from '@/lib';
 import { UUID } from 'crypto';
-import { aesGcmDecrypt, aesGcmEncrypt, concatBytes, fromBase64, generateAesGcmKey, randomIv, sha256, toBase64 } from '@/lib/utils/crypto';
+import { fromBase64, generateAesGcmKey, sha256, toBase64 } from '@/lib/utils/crypto';
+import { compressFile, isCompressible } from '@/lib/utils/compression';
+import { openDownloadSink, PlaintextSink, saveFile } from '@/lib/utils/download';
+import { formatBytes } from '@/lib/utils/format';
+import { TransferProgress, TransferSnapshot } from '@/lib/utils/progress';
+import { RangeReader, serveMedia } from '@/lib/utils/range';
+import { encryptFile } from '@/lib/utils/stream';
+import { clearResumeState, listResumableFiles, loadResumeState, ResumableFile, saveResumeState, sendToTarget } from '@/lib/utils/upload';
+import { loadVaultKey, unwrapFileKey, wrapFileKey } from '@/lib/utils/vault';
+import { readFileDetails, sealUploadDetails } from '@/lib/utils/metadata';
+import { isProtectedLinkKey, openLinkKey, protectLinkKey } from '@/lib/utils/links';
+import { sealManifest } from '@/lib/utils/manifest';
+import { createDropKeys, openDropPrivateKey, unwrapDroppedKey } from '@/lib/utils/drop';
 import AuthWrapper from './auth';
+import { getSessionUser } from './auth-actions';
 
 function FileUploadUI() {
   const [files, setFiles] = useState<{
@@ -15,6 +28,12 @@ function FileUploadUI() {
     originalSize: number;
     uploadParts: UploadPart[];
     createdAt: Date | null;
+    health: FileHealth | null;
+    scrubbedAt: Date | null;
+    wrappedKey: string | null;
+    sealedDetails: string | null;
+    requestId: string | null;
+    locked: boolean; // Sealed details whose key is not in the vault, name, type and size are unknown
   }[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isDownloading, setIsDownloading] = useState<string | null>(null);
@@ -27,6 +46,32 @@ function FileUploadUI() {
   const [shareLink, setShareLink] = useState<string | null>(null);
   const [shareKey, setShareKey] = useState<string | null>(null);
   const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [uploadConfig, setUploadConfig] = useState<UploadConfig | null>(null);
+  const [replication, setReplication] = useState(1);
+  const [compress, setCompress] = useState(false);
+  const [sealDetails, setSealDetails] = useState(false);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [nodeUsage, setNodeUsage] = useState<NodeUsage[]>([]);
+  const [player, setPlayer] = useState<{ id: string; name: string; mime: string; url: string; close: () => void } | null>(null);
+  const [isOpeningPlayer, setIsOpeningPlayer] = useState<string | null>(null);
+  const [transfer, setTransfer] = useState<TransferSnapshot | null>(null);
+  const [interrupted, setInterrupted] = useState<(UploadSessionInfo & ResumableFile)[]>([]);
+  const [shares, setShares] = useState<ShareInfo[]>([]);
+  const [shareTarget, setShareTarget] = useState<{ ids: string[]; name: string } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [shareExpiryHours, setShareExpiryHours] = useState('');
+  const [shareMaxDownloads, setShareMaxDownloads] = useState('');
+  const [sharePassphrase, setSharePassphrase] = useState('');
+  const [createdShareLink, setCreatedShareLink] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [fileRequests, setFileRequests] = useState<FileRequestInfo[]>([]);
+  const [requestLabel, setRequestLabel] = useState('');
+  const [requestExpiryHours, setRequestExpiryHours] = useState('');
+  const [requestMaxFiles, setRequestMaxFiles] = useState('');
+  const [requestMaxMb, setRequestMaxMb] = useState('');
+  const [isCreatingRequest, setIsCreatingRequest] = useState(false);
 
   // Get session token from localStorage
   const getSessionToken = (): string | null => {
@@ -43,6 +88,12 @@ function FileUploadUI() {
     hasInitialized.current = true;
 
     loadFiles();
+    loadUploadConfig();
+    loadNodeUsage();
+    loadInterruptedUploads();
+    loadShares();
+    loadFileRequests();
+    loadRole();
     // Auto download if URL contains #/id:key
     tryAutoDownloadFromHash();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -64,7 +115,20 @@ function FileUploadUI() {
     setIsLoadingFiles(true);
     try {
       const loadedFiles = await GetAllFiles(getSessionToken());
-      setFiles(loadedFiles);
+      setSelectedIds((ids) => ids.filter((id) => loadedFiles.some((f) => f.id === id)));
+      // Sealed names, types and sizes are opened here with the file keys from the vault
+      const vaultKey = await loadVaultKey();
+      const withKeys = vaultKey ? await adoptDroppedKeys(loadedFiles, vaultKey) : loadedFiles;
+      setFiles(await Promise.all(withKeys.map(async (file) => {
+        if (!file.sealedDetails) return { ...file, locked: false };
+        try {
+          if (!vaultKey || !file.wrappedKey) throw new Error('The key of this file is not in the vault');
+          const details = await readFileDetails(file.id, file, await unwrapFileKey(vaultKey, file.wrappedKey));
+          return { ...file, originalFileName: details.filename, mimeType: details.mime, originalSize: details.size, locked: false };
+        } catch {
+          return { ...file, originalFileName: '🔒 Encrypted file', mimeType: '', locked: true };
+        }
+      })));
     } catch (error) {
       console.error('Failed to load files:', error);
     } finally {
@@ -72,9 +136,161 @@ function FileUploadUI() {
     }
   };
 
+  // Files dropped through a request link carry their key wrapped to the request's public key.
+  // The vault opens the request's private key, and the file key moves into the vault
+  const adoptDroppedKeys = async (loaded: Awaited<ReturnType<typeof GetAllFiles>>, vaultKey: CryptoKey) => {
+    if (!loaded.some((f) => f.dropKey && !f.wrappedKey)) return loaded;
+    const requests = await GetFileRequests(getSessionToken());
+    const privateKeys = new Map<string, Promise<CryptoKey>>();
+    return Promise.all(loaded.map(async (file) => {
+      const request = requests.find((r) => r.token === file.requestId);
+      if (!file.dropKey || file.wrappedKey || !request) return file;
+      try {
+        if (!privateKeys.has(request.token)) privateKeys.set(request.token, openDropPrivateKey(vaultKey, request));
+        const rawKey = await unwrapDroppedKey(await privateKeys.get(request.token)!, file.id, file.dropKey);
+        const wrappedKey = await wrapFileKey(vaultKey, rawKey);
+        await StoreFileKey(file.id as UUID, wrappedKey, getSessionToken());
+        return { ...file, wrappedKey };
+      } catch (error) {
+        console.warn(`Could not open the key of dropped file ${file.id}:`, error);
+        return file;
+      }
+    }));
+  };
+
+  const loadUploadConfig = async () => {
+    try {
+      const config = await GetUploadConfig(getSessionToken());
+      setUploadConfig(config);
+      setReplication(config.replicationFactor);
+    } catch (error) {
+      console.error('Failed to load upload config:', error);
+    }
+  };
+
+  const loadNodeUsage = async () => {
+    try {
+      setNodeUsage(await GetNodeUsage(getSessionToken()));
+    } catch (error) {
+      console.error('Failed to load node usage:', error);
+    }
+  };
+
+  // Upload sessions this browser holds the key material for
+  const loadInterruptedUploads = async () => {
+    try {
+      const sessions = await GetUploadSessions(getSessionToken());
+      const local = listResumableFiles();
+      // Sessions that were finalized, aborted or expired elsewhere can not be resumed anymore
+      local.filter((f) => !sessions.some((s) => s.transactionId === f.transactionId)).forEach((f) => clearResumeState(f.transactionId));
+      setInterrupted(sessions.flatMap((s) => {
+        const file = local.find((f) => f.transactionId === s.transactionId);
+        return file ? [{ ...s, ...file }] : [];
+      }));
+    } catch (error) {
+      console.error('Failed to load interrupted uploads:', error);
+    }
+  };
+
+  const loadShares = async () => {
+    try {
+      setShares(await GetShares(getSessionToken()));
+    } catch (error) {
+      console.error('Failed to load shares:', error);
+    }
+  };
+
+  // Scrubbing and orphan collection cover every user's files, only admins see them
+  const loadRole = async () => {
+    try {
+      setIsAdmin((await getSessionUser(getSessionToken()))?.role === 'admin');
+    } catch (error) {
+      console.error('Failed to load account:', error);
+    }
+  };
+
+  const loadFileRequests = async () => {
+    try {
+      setFileRequests(await GetFileRequests(getSessionToken()));
+    } catch (error) {
+      console.error('Failed to load file requests:', error);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setSelectedFile(e.target.files[0]);
+      setCompress(isCompressible(e.target.files[0].type, e.target.files[0].name));
+    }
+  };
+
+  const chunkFileName = (filename: string, i: number, dataCount: number) =>
+    i < dataCount ? `${filename}.part${i}` : `${filename}.parity${i - dataCount}`;
+
+  // Ciphertext goes straight to the nodes, the server only sees hashes. Each chunk is confirmed
+  // once all its copies are stored, so a failed upload can be resumed with just the rest.
+  const sendChunks = async (plan: DirectUploadPlan, chunks: Blob[], dataCount: number, filename: string) => {
+    const progress = new TransferProgress();
+    plan.targets.forEach((copies, i) => copies.forEach((target) => progress.expect(target.key, target.node, chunks[i].size)));
+    // Progress events arrive far more often than is worth rendering, and stalls only show between them
+    const render = () => {
+      const snapshot = progress.snapshot();
+      setTransfer(snapshot);
+      setUploadProgress(snapshot.total > 0 ? (snapshot.sent / snapshot.total) * 100 : 100);
+    };
+    const renderInterval = setInterval(render, 500);
+    let results: PromiseSettledResult<void>[];
+    try {
+      results = await Promise.allSettled(plan.targets.map(async (copies, i) => {
+        if (copies.length === 0) return;
+        const name = chunkFileName(filename, i, dataCount);
+        await Promise.all(copies.map((target) => sendToTarget(target, chunks[i], name, (sent) => progress.report(target.key, sent))));
+        const confirmed = await ConfirmChunk(plan.transactionId, i, getSessionToken());
+        if (!confirmed.success) throw new Error(confirmed.error.message);
+      }));
+    } finally {
+      clearInterval(renderInterval);
+      render();
+    }
+    const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed.length > 0) {
+      const reason = failed[0].reason instanceof Error ? failed[0].reason.message : String(failed[0].reason);
+      throw new Error(`${failed.length} chunk(s) were not stored, the upload can be resumed: ${reason}`);
+    }
+  };
+
+  // Verifies and commits an upload whose chunks are all stored, then shows its link.
+  // The key also goes into the owner's vault, so the file can be opened without the link
+  const finishUpload = async (transactionId: string, base64Key: string) => {
+    setPhaseMessage('Verifying upload...');
+    const vaultKey = await loadVaultKey();
+    const wrappedKey = vaultKey ? await wrapFileKey(vaultKey, fromBase64(base64Key)) : null;
+    const result = await FinalizeUpload(transactionId, wrappedKey, getSessionToken());
+    if (!result.success) {
+      const { error } = result;
+      if (error.code === 'ROLLBACK_INCOMPLETE') {
+        console.warn('Chunks left on nodes after failed upload:', error.orphanedChunks);
+      }
+      // A failed finalize rolls the upload back, there is nothing left to resume
+      clearResumeState(transactionId);
+      throw new Error(error.message);
+    }
+    clearResumeState(transactionId);
+    const { id } = result;
+
+    // Show shareable link with key in fragment
+    const link = `${window.location.origin}/#/` + id + ':' + base64Key;
+    setShareLink(link);
+    setShareKey(base64Key);
+    setPhaseMessage('Upload complete. Link and key are available below.');
+
+    setUploadProgress(100);
+    await new Promise(resolve => setTimeout(resolve, 500)); // Show completion briefly
+    await loadFiles();
+    await loadNodeUsage();
+    setSelectedFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
@@ -83,51 +299,37 @@ function FileUploadUI() {
 
     setIsUploading(true);
     setUploadProgress(0);
+    setTransfer(null);
     setPhaseMessage('Preparing upload...');
 
     try {
-      // Simulate progress (replace with actual progress events if available)
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          const newProgress = prev + Math.random() * 10;
-          return newProgress >= 98 ? 98 : newProgress;
-        });
-      }, 300);
-
-      // Client-side split, encrypt, hash
-      // For simplicity, reuse existing splitter to get 5 equal chunks
-      setPhaseMessage('Splitting file...');
-      const chunks = await (async () => {
-        // Implement simple equal slicing without creating Files twice
-        const buf = new Uint8Array(await selectedFile.arrayBuffer());
-        const n = 5;
-        const size = Math.ceil(buf.byteLength / n);
-        const parts: Uint8Array[] = [];
-        for (let i = 0; i < n; i++) {
-          const start = i * size;
-          const end = Math.min(start + size, buf.byteLength);
-          if (start >= end) break;
-          parts.push(buf.subarray(start, end));
-        }
-        return parts;
-      })();
+      const { dataChunks, parityChunks } = await GetUploadConfig(getSessionToken());
 
       setPhaseMessage('Generating key...');
-      const { key, base64Key } = await generateAesGcmKey();
+      const { key, rawKey, base64Key } = await generateAesGcmKey();
 
-      const encryptedBlobs: Blob[] = [];
-      const chunkHashes: string[] = [];
+      // Compression has to happen before encryption, ciphertext does not compress.
+      // Kept only when it actually saves space
+      let source: Blob = selectedFile;
+      let compression: CompressionInfo | undefined;
+      if (compress) {
+        setPhaseMessage('Compressing...');
+        const compressed = await compressFile(selectedFile, 'gzip');
+        if (compressed.size < selectedFile.size) {
+          source = compressed;
+          compression = { codec: 'gzip', size: compressed.size };
+        }
+      }
 
+      // Split into up to k data chunks and encrypt them segment by segment straight from
+      // the File, parity is computed over the ciphertext so the server can rebuild chunks without the key.
+      // The id is picked here because every chunk envelope is bound to it
       setPhaseMessage('Encrypting chunks...');
-      for (let i = 0; i < chunks.length; i++) {
-        const iv = randomIv(12);
-        const ct = await aesGcmEncrypt(key, iv, chunks[i]);
-        const bi = concatBytes([iv, ct]);
-        const h = await sha256(bi);
-        chunkHashes.push(toBase64(h));
-        const arrBuf = bi.buffer.slice(bi.byteOffset, bi.byteOffset + bi.byteLength);
-        encryptedBlobs.push(new Blob([arrBuf as unknown as BlobPart]));
-      }
+      const uploadId = crypto.randomUUID();
+      const encrypted = await encryptFile(source, key, uploadId, dataChunks, parityChunks, (done) => {
+        setPhaseMessage(`Encrypting chunks... ${source.size > 0 ? Math.floor((done / source.size) * 100) : 100}%`);
+      });
+      const chunkHashes = encrypted.hashes;
 
       // file_hash = H(h0||h1||...)
       setPhaseMessage('Computing file hash...');
@@ -135,37 +337,106 @@ function FileUploadUI() {
       const fileHashBytes = await sha256(combinedHashInput);
       const fileHash = toBase64(fileHashBytes);
 
+      setPhaseMessage('Requesting upload targets...');
+      const details = { filename: selectedFile.name, size: selectedFile.size, mime: selectedFile.type };
+      const meta = {
+        ...(sealDetails ? await sealUploadDetails(key, uploadId, details) : details),
+        encryption: encrypted.encryption,
+        compression,
+      };
+      const prepared = await PrepareUpload({
+        uploadId,
+        meta,
+        chunkSizes: encrypted.sizes,
+        chunkHashes,
+        fileHash,
+        parityCount: parityChunks,
+        replication,
+      }, getSessionToken());
+      if (!prepared.success) throw new Error(prepared.error.message);
+      const { plan } = prepared;
+
+      // Kept until the upload is finalized, so it can be resumed after the tab closes
+      await saveResumeState({
+        transactionId: plan.transactionId,
+        filename: selectedFile.name,
+        size: selectedFile.size,
+        lastModified: selectedFile.lastModified,
+        rawKey,
+        prefixes: encrypted.prefixes,
+      }, plan.wrappingKey);
+
       setPhaseMessage('Uploading encrypted chunks...');
-      const form = new FormData();
-      form.append('meta', JSON.stringify({ filename: selectedFile.name, size: selectedFile.size, mime: selectedFile.type }));
-      form.append('file_hash', fileHash);
-      form.append('chunk_hashes', JSON.stringify(chunkHashes));
-      encryptedBlobs.forEach((blob, i) => form.append(`chunk${i}`, new File([blob], `${selectedFile.name}.part${i}`)));
-
-      const { id } = await UploadEncrypted(form, getSessionToken());
-      clearInterval(progressInterval);
-
-      // Show shareable link with key in fragment
-      const link = `${window.location.origin}/#/` + id + ':' + base64Key;
-      setShareLink(link);
-      setShareKey(base64Key);
-      setPhaseMessage('Upload complete. Link and key are available below.');
-
-      if (id) {
-        setUploadProgress(100);
-        await new Promise(resolve => setTimeout(resolve, 500)); // Show completion briefly
-        await loadFiles();
-        setSelectedFile(null);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      }
+      await sendChunks(plan, encrypted.chunks, encrypted.dataCount, selectedFile.name);
+      await finishUpload(plan.transactionId, base64Key);
     } catch (error) {
       console.error('Upload failed:', error);
-      setPhaseMessage('Upload failed. Please try again.');
+      const reason = error instanceof Error && error.message ? ` (${error.message})` : '';
+      setPhaseMessage(`Upload failed${reason}. Please try again.`);
     } finally {
       setIsUploading(false);
       setUploadProgress(0);
+      setTransfer(null);
+      await loadInterruptedUploads();
+    }
+  };
+
+  const handleResume = async (upload: UploadSessionInfo & ResumableFile) => {
+    const file = selectedFile;
+    if (!file || file.name !== upload.filename || file.size !== upload.size || file.lastModified !== upload.lastModified) return;
+
+    setIsUploading(true);
+    setUploadProgress(0);
+    setTransfer(null);
+    setPhaseMessage('Resuming upload...');
+    try {
+      const resumed = await ResumeUpload(upload.transactionId, getSessionToken());
+      if (!resumed.success) throw new Error(resumed.error.message);
+      const state = await loadResumeState(upload.transactionId, resumed.plan.wrappingKey);
+      if (!state) throw new Error('The key of this upload is not stored in this browser');
+      const key = await crypto.subtle.importKey('raw', new Uint8Array(state.rawKey), { name: 'AES-GCM' }, false, ['encrypt']);
+
+      let source: Blob = file;
+      const { compression } = resumed.meta;
+      if (compression) {
+        setPhaseMessage('Compressing...');
+        source = await compressFile(file, compression.codec);
+      }
+
+      // Same key and nonce prefixes, so the missing chunks come out exactly as the first time
+      setPhaseMessage('Encrypting missing chunks...');
+      const dataCount = resumed.chunkSizes.length - resumed.parityCount;
+      const encrypted = await encryptFile(source, key, resumed.uploadId, dataCount, resumed.parityCount, (done) => {
+        setPhaseMessage(`Encrypting missing chunks... ${source.size > 0 ? Math.floor((done / source.size) * 100) : 100}%`);
+      }, resumed.meta.encryption?.segmentSize, { prefixes: state.prefixes, chunks: resumed.missing });
+      if (resumed.missing.some((i) => encrypted.hashes[i] !== resumed.chunkHashes[i])) {
+        throw new Error('The selected file does not match the interrupted upload');
+      }
+
+      setPhaseMessage(`Uploading ${resumed.missing.length} missing chunk(s)...`);
+      await sendChunks(resumed.plan, encrypted.chunks, dataCount, file.name);
+      await finishUpload(upload.transactionId, toBase64(state.rawKey));
+    } catch (error) {
+      console.error('Resume failed:', error);
+      const reason = error instanceof Error && error.message ? ` (${error.message})` : '';
+      setPhaseMessage(`Resume failed${reason}.`);
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(0);
+      setTransfer(null);
+      await loadInterruptedUploads();
+    }
+  };
+
+  const handleDiscard = async (transactionId: string) => {
+    if (!window.confirm('🗑️ Discard this interrupted upload and the chunks it already stored?')) return;
+    try {
+      await AbortUpload(transactionId, getSessionToken());
+      clearResumeState(transactionId);
+      await loadInterruptedUploads();
+      await loadNodeUsage();
+    } catch (error) {
+      console.error('Discard failed:', error);
     }
   };
 
@@ -177,6 +448,8 @@ function FileUploadUI() {
       const success = await DeleteFile(id as UUID, getSessionToken());
       if (success) {
         await loadFiles();
+        await loadNodeUsage();
+        await loadShares();
       }
     } catch (error) {
       console.error('Delete failed:', error);
@@ -185,60 +458,60 @@ function FileUploadUI() {
     }
   };
 
+  // Take the key from the link, the owner's key vault, the URL fragment, or ask the user for it (base64).
+  // Keys protected with a share passphrase ask for it. `rawKey` is set when the key did not come from the vault
+  const getDecryptionKey = async (keyFromFragment?: string, wrappedKey?: string | null): Promise<{ key: CryptoKey; rawKey: Uint8Array | null }> => {
+    if (!keyFromFragment && wrappedKey) {
+      const vaultKey = await loadVaultKey();
+      if (vaultKey) return { key: await unwrapFileKey(vaultKey, wrappedKey), rawKey: null };
+    }
+
+    let keyB64 = keyFromFragment || window.location.hash.split('#/').pop()?.split(':')[1];
+    if (!keyB64) keyB64 = window.prompt('Enter decryption key (base64):') || '';
+    if (!keyB64) throw new Error('Missing decryption key');
+
+    const passphrase = isProtectedLinkKey(keyB64) ? window.prompt('This link is protected, enter its passphrase:') || '' : undefined;
+    const rawKey = await openLinkKey(keyB64, passphrase);
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(rawKey), { name: 'AES-GCM' }, false, ['decrypt']);
+    return { key, rawKey };
+  };
+
+  // A file opened with its key goes into the vault if it is not there yet, so its link is not needed again
+  const storeInVault = async (id: string, rawKey: Uint8Array) => {
+    const vaultKey = await loadVaultKey();
+    if (!vaultKey) return;
+    if (await StoreFileKey(id as UUID, await wrapFileKey(vaultKey, rawKey), getSessionToken())) await loadFiles();
+  };
+
   const handleDownload = async (id: string, keyFromFragment?: string) => {
     setIsDownloading(id);
     setDownloadError(null); // Clear any previous errors
+    let sink: PlaintextSink | null = null;
     try {
+      const listed = files.find((f) => f.id === id);
+      setPhaseMessage('Preparing decryption key...');
+      const { key: cryptoKey, rawKey } = await getDecryptionKey(keyFromFragment, listed?.wrappedKey);
+
+      // The save dialog needs the click that started this, so open it before fetching metadata when possible
+      if (listed && !listed.locked) sink = await openDownloadSink(listed.originalFileName, listed.mimeType, listed.originalSize);
+
       setPhaseMessage('Fetching metadata...');
       const meta = await GetFile(id as UUID, getSessionToken());
-      // Ask user for key (base64) or parse from URL fragment if present
-      let keyB64 = keyFromFragment || window.location.hash.split('#/').pop()?.split(':')[1];
-      if (!keyB64) keyB64 = window.prompt('Enter decryption key (base64):') || '';
-      if (!keyB64) throw new Error('Missing decryption key');
-
-      setPhaseMessage('Preparing decryption key...');
-      const rawKey = fromBase64(keyB64);
-      const rawKeyBuf = rawKey.buffer.slice(rawKey.byteOffset, rawKey.byteOffset + rawKey.byteLength);
-      const cryptoKey = await crypto.subtle.importKey('raw', rawKeyBuf as unknown as BufferSource, { name: 'AES-GCM' }, false, ['decrypt']);
-
-      // Download each encrypted chunk (IV||C), verify hash, decrypt
-      const parts = meta.uploadParts;
-      const plaintextChunks: Uint8Array[] = [];
-      setPhaseMessage('Downloading and verifying chunks...');
-      await Promise.all(parts.map(async (p, i) => {
-        const res = await fetch(p.url);
-        if (!res.ok) throw new Error('Failed to fetch chunk ' + i);
-        const buf = new Uint8Array(await res.arrayBuffer());
-        const h = await sha256(buf);
-        const hB64 = toBase64(h);
-        if (hB64 !== p.hash) throw new Error(`Hash mismatch on chunk ${i}`);
-        const iv = buf.subarray(0, 12);
-        const ct = buf.subarray(12);
-        setPhaseMessage(`Decrypting chunk ${i + 1}/${parts.length}...`);
-        const pt = await aesGcmDecrypt(cryptoKey as CryptoKey, iv, ct);
-        plaintextChunks[i] = pt;
-      }));
 
-      setPhaseMessage('Merging chunks...');
-      const combined = concatBytes(plaintextChunks);
-      const combinedBuf = combined.buffer.slice(combined.byteOffset, combined.byteOffset + combined.byteLength);
-      const file = new File([combinedBuf as unknown as BlobPart], meta.originalFileName, { type: meta.mimeType });
-      const url = URL.createObjectURL(file);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = meta.originalFileName;
-      document.body.appendChild(a);
-      a.click();
-
-      // Clean up
-      setTimeout(() => {
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      }, 100);
+      // Fetch, verify and decrypt chunk by chunk straight into the sink, which saveFile aborts on failure
+      const opened = sink;
+      sink = null;
+      setPhaseMessage('Downloading...');
+      await saveFile(id, meta, cryptoKey, opened, (written, total) => {
+        setPhaseMessage(`Downloading ${formatBytes(written)} of ${formatBytes(total)} (${total > 0 ? Math.floor((written / total) * 100) : 100}%)`);
+      });
       setPhaseMessage('Download complete.');
       setDownloadError(null);
+      // The key decrypted the file, so it is the right one to keep
+      if (rawKey && !meta.wrappedKey) await storeInVault(id, rawKey).catch((error) => console.warn('Could not add the key to the vault:', error));
     } catch (error) {
       console.error('Download failed:', error);
+      await sink?.abort(error).catch(() => {});
       const errorMessage = (error instanceof Error && error.message) ? error.message : 'Download failed. Please check the link and key.';
       setDownloadError(errorMessage);
       setPhaseMessage('');
@@ -247,6 +520,209 @@ function FileUploadUI() {
     }
   };
 
+  // The base64 file key for a share link: from the vault when it is there, otherwise asked for
+  const getShareableKey = async (wrappedKey: string | null | undefined): Promise<string> => {
+    const vaultKey = await loadVaultKey();
+    if (vaultKey && wrappedKey) {
+      const key = await unwrapFileKey(vaultKey, wrappedKey, true);
+      return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+    }
+    const keyB64 = window.prompt('Enter the key of this file to put in the link (base64):') || '';
+    if (!keyB64) throw new Error('Missing file key');
+    return keyB64;
+  };
+
+  const openShareForm = (ids: string[], name: string) => {
+    setShareTarget({ ids, name });
+    setShareExpiryHours('');
+    setShareMaxDownloads('');
+    setSharePassphrase('');
+    setCreatedShareLink(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]);
+  };
+
+  // Creates a public link: the server only learns the token, the key goes in the fragment,
+  // wrapped under the share passphrase when one is set. Several files become a collection:
+  // their keys go into a manifest sealed under a fresh collection key, which the link carries instead
+  const handleCreateShare = async () => {
+    if (!shareTarget) return;
+    setIsSharing(true);
+    setDownloadError(null);
+    try {
+      const options = {
+        expiresAt: shareExpiryHours ? new Date(Date.now() + Number(shareExpiryHours) * 60 * 60 * 1000) : null,
+        maxDownloads: shareMaxDownloads ? Number(shareMaxDownloads) : null,
+      };
+      let path: string;
+      let base64Key: string;
+      if (shareTarget.ids.length === 1) {
+        const [id] = shareTarget.ids;
+        base64Key = await getShareableKey(files.find((f) => f.id === id)?.wrappedKey);
+        path = `/s/${(await CreateShare(id as UUID, options, getSessionToken())).token}`;
+      } else {
+        const manifestFiles = [];
+        for (const id of shareTarget.ids) {
+          manifestFiles.push({ uploadId: id, key: await getShareableKey(files.find((f) => f.id === id)?.wrappedKey) });
+        }
+        const collectionId = crypto.randomUUID();
+        const collectionKey = await generateAesGcmKey();
+        base64Key = collectionKey.base64Key;
+        const manifest = await sealManifest(collectionKey.key, collectionId, { version: 1, files: manifestFiles });
+        path = `/c/${(await CreateCollection(collectionId, shareTarget.ids, manifest, options, getSessionToken())).token}`;
+        setSelectedIds([]);
+      }
+      const fragmentKey = sharePassphrase ? await protectLinkKey(fromBase64(base64Key), sharePassphrase) : base64Key;
+      setCreatedShareLink(`${window.location.origin}${path}#${fragmentKey}`);
+      await loadShares();
+    } catch (error) {
+      console.error('Creating share failed:', error);
+      setDownloadError(error instanceof Error && error.message ? error.message : 'Could not create the link.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRevokeShare = async (token: string) => {
+    if (!window.confirm('Revoke this link? It stops working for everyone who has it.')) return;
+    try {
+      await RevokeShare(token, getSessionToken());
+      await loadShares();
+    } catch (error) {
+      console.error('Revoke failed:', error);
+    }
+  };
+
+  // Creates a link outsiders can upload through. The key pair is made here and its private half
+  // sealed under the vault, so only the owner can open what is dropped
+  const handleCreateFileRequest = async () => {
+    setIsCreatingRequest(true);
+    setDownloadError(null);
+    try {
+      const vaultKey = await loadVaultKey();
+      if (!vaultKey) throw new Error('File requests need the key vault, log in again to unlock it');
+      await CreateFileRequest({
+        label: requestLabel,
+        ...(await createDropKeys(vaultKey)),
+        maxFiles: requestMaxFiles ? Number(requestMaxFiles) : null,
+        maxBytes: requestMaxMb ? Math.round(Number(requestMaxMb) * 1024 * 1024) : null,
+        expiresAt: requestExpiryHours ? new Date(Date.now() + Number(requestExpiryHours) * 60 * 60 * 1000) : null,
+      }, getSessionToken());
+      setRequestLabel('');
+      setRequestExpiryHours('');
+      setRequestMaxFiles('');
+      setRequestMaxMb('');
+      await loadFileRequests();
+    } catch (error) {
+      console.error('Creating file request failed:', error);
+      setDownloadError(error instanceof Error && error.message ? error.message : 'Could not create the request link.');
+    } finally {
+      setIsCreatingRequest(false);
+    }
+  };
+
+  // The public key is not secret, so the link can be copied again at any time
+  const copyFileRequestLink = (request: FileRequestInfo) => {
+    navigator.clipboard.writeText(`${window.location.origin}/r/${request.token}#${request.publicKey}`);
+  };
+
+  const handleCloseFileRequest = async (token: string) => {
+    if (!window.confirm('Close this request? The link stops taking files, what was already dropped stays.')) return;
+    try {
+      await CloseFileRequest(token, getSessionToken());
+      await loadFileRequests();
+    } catch (error) {
+      console.error('Closing file request failed:', error);
+    }
+  };
+
+  const closePlayer = () => {
+    player?.close();
+    setPlayer(null);
+  };
+
+  // Plays audio and video in place: the service worker turns the element's Range requests
+  // into reads of just the segments they cover, so seeking does not download the whole file
+  const handlePlay = async (id: string) => {
+    setIsOpeningPlayer(id);
+    setDownloadError(null);
+    try {
+      const meta = await GetFile(id as UUID, getSessionToken());
+      const { key: cryptoKey } = await getDecryptionKey(undefined, meta.wrappedKey);
+      if (!meta.encryption) {
+        throw new Error('This file was uploaded before segmented encryption and can only be downloaded');
+      }
+      if (meta.compression) {
+        throw new Error('This file was compressed before encryption and can only be downloaded');
+      }
+      const details = await readFileDetails(id, meta, cryptoKey);
+      const reader = new RangeReader(id, meta.uploadParts, meta.encryption, details.size, cryptoKey);
+      const served = await serveMedia(reader, details.mime);
+      if (!served) throw new Error('Playback needs service workers, download the file instead');
+      closePlayer();
+      setPlayer({ id, name: details.filename, mime: details.mime, ...served });
+    } catch (error) {
+      console.error('Playback failed:', error);
+      setDownloadError(error instanceof Error && error.message ? error.message : 'Playback failed.');
+    } finally {
+      setIsOpeningPlayer(null);
+    }
+  };
+
+  const handleScrub = async () => {
+    setIsScrubbing(true);
+    try {
+      const reports = await ScrubFiles(getSessionToken());
+      const lost = reports.filter((r) => r.health === 'lost').length;
+      const repaired = reports.reduce((n, r) => n + r.repairedCopies, 0);
+      window.alert(`Scrubbed ${reports.length} file(s): ${repaired} chunk copies repaired, ${lost} file(s) lost.`);
+      await loadFiles();
+      await loadNodeUsage();
+    } catch (error) {
+      console.error('Scrub failed:', error);
+    } finally {
+      setIsScrubbing(false);
+    }
+  };
+
+  const handleCollectOrphans = async () => {
+    setIsCollecting(true);
+    try {
+      // Dry run first, only delete after the user has seen what would go
+      const reports = await CollectOrphans(getSessionToken());
+      const failed = reports.filter((r) => r.error);
+      const orphans = reports.reduce((n, r) => n + r.orphans.length, 0);
+      const bytes = reports.reduce((n, r) => n + r.orphans.reduce((m, o) => m + o.size, 0), 0);
+      const failedNote = failed.length > 0 ? `\n${failed.length} node(s) could not be listed: ${failed.map((r) => r.label).join(', ')}` : '';
+      if (orphans === 0) {
+        window.alert(`No orphan chunks found.${failedNote}`);
+        return;
+      }
+      if (!window.confirm(`Found ${orphans} orphan chunk(s) (${bytes} bytes) on ${reports.filter((r) => r.orphans.length > 0).length} node(s).${failedNote}\n\nDelete them?`)) return;
+      // Only what was shown is deleted, and only if nothing refers to it by now
+      const reported = reports.flatMap((r) => r.orphans.map((o) => ({ node: r.node, key: o.key })));
+      const result = await CollectOrphans(getSessionToken(), reported);
+      window.alert(`Deleted ${result.reduce((n, r) => n + r.deleted, 0)} orphan chunk(s).`);
+      await loadNodeUsage();
+    } catch (error) {
+      console.error('Orphan collection failed:', error);
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  const getHealthBadge = (health: FileHealth | null) => {
+    switch (health) {
+      case 'healthy': return { emoji: '🟢', label: 'All chunks intact' };
+      case 'repaired': return { emoji: '🔧', label: 'Damaged chunks were repaired' };
+      case 'degraded': return { emoji: '🟠', label: 'Damaged chunks remain, file is still recoverable' };
+      case 'lost': return { emoji: '🔴', label: 'Too many chunks damaged, file can not be rebuilt' };
+      default: return { emoji: '⚪', label: 'Not scrubbed yet' };
+    }
+  };
+
   const getFileEmoji = (mimeType: string) => {
     if (mimeType.startsWith('image/')) return '🖼️';
     if (mimeType.startsWith('video/')) return '🎬';
@@ -258,6 +734,12 @@ function FileUploadUI() {
     return '📁';
   };
 
+  const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${Math.ceil(seconds)}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  };
+
   const formatDate = (date: Date | null) => {
     if (!date) return 'Unknown';
     return new Date(date).toLocaleString();
@@ -298,6 +780,39 @@ function FileUploadUI() {
 
             {selectedFile && (
               <div className="flex flex-col space-y-2">
+                {uploadConfig && uploadConfig.maxReplicationFactor > 1 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Copies per chunk
+                    <select
+                      value={replication}
+                      onChange={(e) => setReplication(Number(e.target.value))}
+                      disabled={isUploading}
+                      className="bg-neutral-800 border border-gray-700 rounded px-2 py-1 text-gray-100"
+                    >
+                      {Array.from({ length: uploadConfig.maxReplicationFactor }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>{n === 1 ? '1 (no mirror)' : `${n} (mirrored)`}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={compress}
+                    onChange={(e) => setCompress(e.target.checked)}
+                    disabled={isUploading}
+                  />
+                  🗜️ Compress before encrypting
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400" title="The server only sees a placeholder, the list shows the real name when the key is in your vault">
+                  <input
+                    type="checkbox"
+                    checked={sealDetails}
+                    onChange={(e) => setSealDetails(e.target.checked)}
+                    disabled={isUploading}
+                  />
+                  🕶️ Encrypt file name and type
+                </label>
                 <button
                   onClick={handleUpload}
                   disabled={isUploading}
@@ -327,11 +842,69 @@ function FileUploadUI() {
                     ></div>
                   </div>
                 )}
+
+                {isUploading && transfer && (
+                  <div className="p-3 rounded border border-gray-700 bg-neutral-900 text-sm text-gray-300 space-y-2">
+                    <div className="flex justify-between text-gray-400">
+                      <span>{formatBytes(transfer.sent)} of {formatBytes(transfer.total)} · {formatBytes(transfer.bytesPerSecond)}/s</span>
+                      <span>{transfer.sent >= transfer.total ? 'Done' : transfer.etaSeconds === null ? 'Estimating...' : `${formatDuration(transfer.etaSeconds)} left`}</span>
+                    </div>
+                    {transfer.nodes.map((node) => (
+                      <div key={node.node} className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <span className="truncate" title={node.node}>
+                            {nodeUsage.find((u) => u.node === node.node)?.label ?? node.node}
+                            {node.stalled && <span className="text-red-500"> · stalling</span>}
+                          </span>
+                          <span className="text-gray-500">{formatBytes(node.sent)} / {formatBytes(node.total)} · {formatBytes(node.bytesPerSecond)}/s</span>
+                        </div>
+                        <div className="w-full bg-gray-700 rounded-full h-1">
+                          <div
+                            className={`h-1 rounded-full transition-all duration-300 ${node.stalled ? 'bg-red-600' : 'bg-white'}`}
+                            style={{ width: `${node.total > 0 ? (node.sent / node.total) * 100 : 100}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {interrupted.length > 0 && (
+              <div className="p-3 rounded border border-gray-700 bg-neutral-900 text-sm text-gray-300 space-y-2">
+                <div className="text-gray-200">⏸️ Interrupted uploads</div>
+                {interrupted.map((upload) => {
+                  const matches = selectedFile?.name === upload.filename && selectedFile.size === upload.size && selectedFile.lastModified === upload.lastModified;
+                  return (
+                    <div key={upload.transactionId} className="flex items-center justify-between gap-4">
+                      <span className="truncate" title={upload.filename}>
+                        {upload.filename} · {formatBytes(upload.size)} · {upload.storedChunks.length} of {upload.chunkCount} chunk(s) stored
+                        {!matches && <span className="text-gray-500"> · choose this file again to resume</span>}
+                      </span>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => handleResume(upload)}
+                          disabled={isUploading || !matches}
+                          className="px-2 py-1 rounded bg-neutral-800 text-gray-200 hover:bg-neutral-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                        >
+                          ▶️ Resume
+                        </button>
+                        <button
+                          onClick={() => handleDiscard(upload.transactionId)}
+                          disabled={isUploading}
+                          className="px-2 py-1 rounded bg-neutral-800 text-gray-200 hover:bg-neutral-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             )}
             {shareLink && (
               <div className="mt-4 p-3 rounded border border-gray-700 bg-neutral-900 text-gray-200 space-y-2">
-                <div className="text-sm">Shareable Link</div>
+                <div className="text-sm">Owner Link <span className="text-gray-400">(opens while you are logged in, use 🔗 Share to send the file to others)</span></div>
                 <div className="flex items-center gap-2">
                   <input className="w-full bg-neutral-800 text-gray-100 px-2 py-1 rounded" value={shareLink} readOnly />
                   <button className="px-2 py-1 bg-neutral-800 rounded text-gray-200" onClick={() => navigator.clipboard.writeText(shareLink!)}>Copy</button>
@@ -346,10 +919,70 @@ function FileUploadUI() {
           </div>
         </div>
 
+        {/* Node Usage */}
+        {nodeUsage.length > 0 && (
+          <div className="bg-neutral-950 rounded-lg shadow-lg p-6 mb-8 border border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-200 mb-4">💾 Storage Nodes</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {nodeUsage.map((usage) => {
+                const percent = usage.quota ? Math.min(100, (usage.usedBytes / usage.quota) * 100) : 0;
+                return (
+                  <div key={usage.node} className="p-3 rounded border border-gray-700 bg-neutral-900 text-sm text-gray-300 space-y-2">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-100 truncate" title={usage.node}>{usage.label}</span>
+                      {!usage.enabled && <span className="text-xs text-gray-500">read-only</span>}
+                    </div>
+                    <div className="text-gray-400">
+                      {formatBytes(usage.usedBytes)}
+                      {usage.quota !== null ? ` of ${formatBytes(usage.quota)} (${formatBytes(usage.freeBytes ?? 0)} free)` : isAdmin ? ' used, no quota' : ' used by your files'}
+                      {` · ${usage.chunks} chunk(s)`}
+                    </div>
+                    {usage.quota !== null && (
+                      <div className="w-full bg-gray-700 rounded-full h-1">
+                        <div
+                          className={`h-1 rounded-full ${percent >= 90 ? 'bg-red-600' : 'bg-white'}`}
+                          style={{ width: `${percent}%` }}
+                        ></div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Files List */}
         <div className="bg-neutral-950 rounded-lg shadow-lg p-6 border border-gray-700">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-gray-200">🗂️ Your Files</h2>
+            <div className="flex items-center gap-4">
+              <h2 className="text-xl font-semibold text-gray-200">🗂️ Your Files</h2>
+              {isAdmin && (
+                <>
+                  <button
+                    onClick={handleScrub}
+                    disabled={isScrubbing || files.length === 0}
+                    className="px-3 py-1 text-sm bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isScrubbing ? 'Scrubbing...' : '🩺 Scrub'}
+                  </button>
+                  <button
+                    onClick={handleCollectOrphans}
+                    disabled={isCollecting}
+                    className="px-3 py-1 text-sm bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isCollecting ? 'Collecting...' : '🧹 Clean up orphans'}
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => openShareForm(selectedIds, `${selectedIds.length} files`)}
+                disabled={selectedIds.length < 2}
+                className="px-3 py-1 text-sm bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                📚 Share selected{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+              </button>
+            </div>
             {downloadError && (
               <div className="flex items-center gap-2 bg-red-900/50 border border-red-700 rounded-md px-4 py-2 text-red-200 text-sm">
                 <span>⚠️</span>
@@ -365,6 +998,20 @@ function FileUploadUI() {
             )}
           </div>
 
+          {player && (
+            <div className="mb-4 p-3 rounded border border-gray-700 bg-neutral-900 space-y-2">
+              <div className="flex justify-between items-center text-sm text-gray-200">
+                <span className="truncate">{getFileEmoji(player.mime)} {player.name}</span>
+                <button onClick={closePlayer} className="text-gray-400 hover:text-gray-200" aria-label="Close player">✕</button>
+              </div>
+              {player.mime.startsWith('video/') ? (
+                <video key={player.url} src={player.url} controls autoPlay className="w-full max-h-[70vh] bg-black rounded" />
+              ) : (
+                <audio key={player.url} src={player.url} controls autoPlay className="w-full" />
+              )}
+            </div>
+          )}
+
           {isLoadingFiles ? (
             <div className="flex justify-center py-8">
               <svg className="animate-spin h-8 w-8 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -381,6 +1028,7 @@ function FileUploadUI() {
               <table className="min-w-full divide-y divide-gray-700">
                 <thead className="bg-gray-750">
                   <tr>
+                    <th className="pl-6 py-3"></th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">File</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Type</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Size</th>
@@ -391,19 +1039,39 @@ function FileUploadUI() {
                 <tbody className="divide-y divide-gray-700">
                   {files.map((file) => (
                     <tr key={file.id} className="hover:bg-gray-750 transition-colors">
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(file.id)}
+                          onChange={() => toggleSelected(file.id)}
+                          aria-label={`Select ${file.originalFileName}`}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
                           <span className="text-xl mr-3">{getFileEmoji(file.mimeType)}</span>
                           <div className="text-sm font-medium text-gray-100 truncate max-w-xs">
                             {file.originalFileName}
                           </div>
+                          <span
+                            className="ml-2 text-xs"
+                            title={`${getHealthBadge(file.health).label}${file.scrubbedAt ? ` (checked ${formatDate(file.scrubbedAt)})` : ''}`}
+                          >
+                            {getHealthBadge(file.health).emoji}
+                          </span>
+                          {file.wrappedKey && (
+                            <span className="ml-1 text-xs" title="Key stored in your vault, no link needed">🔑</span>
+                          )}
+                          {file.requestId && (
+                            <span className="ml-1 text-xs" title={`Dropped through ${fileRequests.find((r) => r.token === file.requestId)?.label ?? 'a request link'}`}>📥</span>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
                         {file.mimeType}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-                        {file.originalSize < 1024
+                        {file.locked ? '—' : file.originalSize < 1024
                           ? `${file.originalSize} B`
                           : file.originalSize < 1024 * 1024
                             ? `${(file.originalSize / 1024).toFixed(2)} KB`
@@ -433,6 +1101,21 @@ function FileUploadUI() {
                             '⬇️ Download'
                           )}
                         </button>
+                        {(file.mimeType.startsWith('video/') || file.mimeType.startsWith('audio/')) && (
+                          <button
+                            onClick={() => handlePlay(file.id)}
+                            disabled={isOpeningPlayer === file.id}
+                            className={`text-green-400 hover:text-green-300 mr-4 ${isOpeningPlayer === file.id ? 'opacity-50 cursor-not-allowed' : ''}`}
+                          >
+                            {isOpeningPlayer === file.id ? 'Opening...' : '▶️ Play'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openShareForm([file.id], file.originalFileName)}
+                          className="text-gray-300 hover:text-gray-100 mr-4"
+                        >
+                          🔗 Share
+                        </button>
                         <button
                           onClick={() => handleDelete(file.id)}
                           disabled={isDeleting === file.id}
@@ -459,6 +1142,195 @@ function FileUploadUI() {
             </div>
           )}
         </div>
+
+        {/* Share Links */}
+        {(shareTarget || shares.length > 0) && (
+          <div className="bg-neutral-950 rounded-lg shadow-lg p-6 mt-8 border border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-200 mb-4">🔗 Shared Links</h2>
+
+            {shareTarget && (
+              <div className="mb-4 p-3 rounded border border-gray-700 bg-neutral-900 text-sm text-gray-200 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="truncate">New link to {shareTarget.name}</span>
+                  <button onClick={() => setShareTarget(null)} className="text-gray-400 hover:text-gray-200" aria-label="Close">✕</button>
+                </div>
+                {createdShareLink ? (
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <input className="w-full bg-neutral-800 text-gray-100 px-2 py-1 rounded" value={createdShareLink} readOnly />
+                      <button className="px-2 py-1 bg-neutral-800 rounded text-gray-200" onClick={() => navigator.clipboard.writeText(createdShareLink)}>Copy</button>
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {sharePassphrase
+                        ? 'The key is only in this link, copy it now. Send the passphrase through another channel than the link.'
+                        : 'The key is only in this link, copy it now. Anyone with it can download the file until it expires or is revoked.'}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2">
+                      Expires after
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="never"
+                        value={shareExpiryHours}
+                        onChange={(e) => setShareExpiryHours(e.target.value)}
+                        className="w-24 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+                      />
+                      hours
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Download limit
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="none"
+                        value={shareMaxDownloads}
+                        onChange={(e) => setShareMaxDownloads(e.target.value)}
+                        className="w-24 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Passphrase
+                      <input
+                        type="password"
+                        placeholder="optional"
+                        value={sharePassphrase}
+                        onChange={(e) => setSharePassphrase(e.target.value)}
+                        className="w-40 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+                      />
+                    </label>
+                    <button
+                      onClick={handleCreateShare}
+                      disabled={isSharing}
+                      className="px-3 py-1 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSharing ? 'Creating...' : 'Create link'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {shares.length > 0 && (
+              <div className="space-y-2">
+                {shares.map((share) => {
+                  const file = files.find((f) => f.id === share.uploadIds[0]);
+                  return (
+                    <div key={share.token} className="flex justify-between items-center p-2 rounded bg-neutral-900 text-sm text-gray-300">
+                      <div className="truncate">
+                        <span className="text-gray-100">
+                          {share.collection ? `📚 ${share.uploadIds.length} files` : file?.originalFileName ?? share.uploadIds[0]}
+                        </span>
+                        <span className="ml-2 text-gray-500">
+                          created {formatDate(share.createdAt)}
+                          {` · ${share.expiresAt ? `expires ${formatDate(share.expiresAt)}` : 'no expiry'}`}
+                          {` · ${share.downloads}${share.maxDownloads !== null ? ` of ${share.maxDownloads}` : ''} download(s)`}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => handleRevokeShare(share.token)}
+                        className="ml-4 px-2 py-1 rounded bg-neutral-800 text-red-400 hover:bg-neutral-700"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* File Requests */}
+        <div className="bg-neutral-950 rounded-lg shadow-lg p-6 mt-8 border border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-200 mb-4">📥 File Requests</h2>
+          <div className="text-sm text-gray-400 mb-3">
+            A request link lets someone without an account upload files that only you can open.
+          </div>
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-200">
+            <input
+              value={requestLabel}
+              onChange={(e) => setRequestLabel(e.target.value)}
+              placeholder="What are you asking for?"
+              className="w-64 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+            />
+            <label className="flex items-center gap-2">
+              Expires after
+              <input
+                type="number"
+                min={1}
+                placeholder="never"
+                value={requestExpiryHours}
+                onChange={(e) => setRequestExpiryHours(e.target.value)}
+                className="w-24 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+              />
+              hours
+            </label>
+            <label className="flex items-center gap-2">
+              Up to
+              <input
+                type="number"
+                min={1}
+                placeholder="any"
+                value={requestMaxFiles}
+                onChange={(e) => setRequestMaxFiles(e.target.value)}
+                className="w-20 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+              />
+              files
+            </label>
+            <label className="flex items-center gap-2">
+              Up to
+              <input
+                type="number"
+                min={1}
+                placeholder="any"
+                value={requestMaxMb}
+                onChange={(e) => setRequestMaxMb(e.target.value)}
+                className="w-24 bg-neutral-800 text-gray-100 px-2 py-1 rounded"
+              />
+              MB
+            </label>
+            <button
+              onClick={handleCreateFileRequest}
+              disabled={isCreatingRequest || !requestLabel.trim()}
+              className="px-3 py-1 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreatingRequest ? 'Creating...' : 'Create request link'}
+            </button>
+          </div>
+          {fileRequests.some((r) => r.open) && (
+            <div className="space-y-2">
+              {fileRequests.filter((r) => r.open).map((request) => (
+                <div key={request.token} className="flex justify-between items-center p-2 rounded bg-neutral-900 text-sm text-gray-300">
+                  <div className="truncate">
+                    <span className="text-gray-100">{request.label}</span>
+                    <span className="ml-2 text-gray-500">
+                      {`${request.files}${request.maxFiles !== null ? ` of ${request.maxFiles}` : ''} file(s)`}
+                      {` · ${formatBytes(request.bytes)}${request.maxBytes !== null ? ` of ${formatBytes(request.maxBytes)}` : ''}`}
+                      {` · ${request.expiresAt ? `expires ${formatDate(request.expiresAt)}` : 'no expiry'}`}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 ml-4">
+                    <button
+                      onClick={() => copyFileRequestLink(request)}
+                      className="px-2 py-1 rounded bg-neutral-800 text-gray-200 hover:bg-neutral-700"
+                    >
+                      Copy link
+                    </button>
+                    <button
+                      onClick={() => handleCloseFileRequest(request.token)}
+                      className="px-2 py-1 rounded bg-neutral-800 text-red-400 hover:bg-neutral-700"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
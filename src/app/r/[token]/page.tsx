@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useRef, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { DropUpload, GetFileRequest } from '../../actions';
+import { CompressionInfo, FileRequestResult } from '@/lib';
+import { compressFile, isCompressible } from '@/lib/utils/compression';
+import { generateAesGcmKey, sha256, toBase64 } from '@/lib/utils/crypto';
+import { isDropPublicKey, wrapKeyForDrop } from '@/lib/utils/drop';
+import { formatBytes } from '@/lib/utils/format';
+import { sealUploadDetails } from '@/lib/utils/metadata';
+import { encryptFile } from '@/lib/utils/stream';
+
+type OpenRequest = Extract<FileRequestResult, { success: true }>;
+
+type DroppedFile = {
+  name: string;
+  size: number;
+  error: string | null;
+};
+
+// Public page of a file request link, /r/<token>#<public key>. Anyone with the link can upload
+// without an account: each file is encrypted here under a fresh key, and that key is wrapped to
+// the request's public key, so only the owner who made the link can open what is dropped.
+export default function FileRequestPage() {
+  const { token } = useParams<{ token: string }>();
+  const [request, setRequest] = useState<OpenRequest | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [dropped, setDropped] = useState<DroppedFile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [phaseMessage, setPhaseMessage] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Use ref to prevent duplicate execution in React StrictMode
+  const hasInitialized = useRef(false);
+
+  useEffect(() => {
+    if (hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    openRequest();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getPublicKey = (): string => {
+    const publicKey = window.location.hash.slice(1);
+    if (!isDropPublicKey(publicKey)) throw new Error('This link is missing its key, ask for the complete link');
+    return publicKey;
+  };
+
+  const openRequest = async () => {
+    try {
+      getPublicKey();
+      const opened = await GetFileRequest(token);
+      if (!opened.success) throw new Error(opened.error);
+      setRequest(opened);
+    } catch (error) {
+      console.error('Opening file request failed:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Could not open this link.');
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFiles(e.target.files ? Array.from(e.target.files) : []);
+  };
+
+  // Encrypts a file the same way as the owner's uploads, with its details always sealed
+  const dropFile = async (file: File, layout: OpenRequest) => {
+    // Parity adds its share on top of the ciphertext, refuse what can not fit before encrypting it
+    const tooLarge = new Error(`Too large, files can be up to ${formatBytes(layout.maxFileBytes)} encrypted`);
+    if (file.size * (layout.dataChunks + layout.parityChunks) / layout.dataChunks > layout.maxFileBytes) throw tooLarge;
+
+    const { key, rawKey } = await generateAesGcmKey();
+
+    // Compression has to happen before encryption, kept only when it actually saves space
+    let source: Blob = file;
+    let compression: CompressionInfo | undefined;
+    if (isCompressible(file.type, file.name)) {
+      setPhaseMessage(`Compressing ${file.name}...`);
+      const compressed = await compressFile(file, 'gzip');
+      if (compressed.size < file.size) {
+        source = compressed;
+        compression = { codec: 'gzip', size: compressed.size };
+      }
+    }
+
+    const uploadId = crypto.randomUUID();
+    const encrypted = await encryptFile(source, key, uploadId, layout.dataChunks, layout.parityChunks, (done) => {
+      setPhaseMessage(`Encrypting ${file.name}... ${source.size > 0 ? Math.floor((done / source.size) * 100) : 100}%`);
+    });
+
+    if (encrypted.sizes.reduce((sum, size) => sum + size, 0) > layout.maxFileBytes) throw tooLarge;
+
+    // file_hash = H(h0||h1||...)
+    const fileHash = toBase64(await sha256(new TextEncoder().encode(encrypted.hashes.join(""))));
+    const meta = {
+      ...(await sealUploadDetails(key, uploadId, { filename: file.name, size: file.size, mime: file.type })),
+      encryption: encrypted.encryption,
+      compression,
+    };
+
+    const form = new FormData();
+    form.append('meta', JSON.stringify(meta));
+    form.append('file_hash', fileHash);
+    form.append('chunk_hashes', JSON.stringify(encrypted.hashes));
+    form.append('upload_id', uploadId);
+    form.append('parity_count', String(layout.parityChunks));
+    form.append('drop_key', await wrapKeyForDrop(getPublicKey(), uploadId, rawKey));
+    encrypted.chunks.forEach((chunk, i) => {
+      const name = i < encrypted.dataCount ? `${meta.filename}.part${i}` : `${meta.filename}.parity${i - encrypted.dataCount}`;
+      form.append(`chunk${i}`, new File([chunk], name));
+    });
+
+    setPhaseMessage(`Uploading ${file.name}...`);
+    const result = await DropUpload(token, form);
+    if (!result.success) throw new Error(result.error.message);
+  };
+
+  // One file after another, a file the link no longer accepts does not stop the rest
+  const handleUpload = async () => {
+    if (!request || selectedFiles.length === 0) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      for (const file of selectedFiles) {
+        try {
+          await dropFile(file, request);
+          setDropped((prev) => [...prev, { name: file.name, size: file.size, error: null }]);
+        } catch (error) {
+          console.error('Upload failed:', error);
+          const reason = error instanceof Error && error.message ? error.message : 'Upload failed';
+          setDropped((prev) => [...prev, { name: file.name, size: file.size, error: reason }]);
+        }
+      }
+      setSelectedFiles([]);
+      setPhaseMessage('');
+
+      // What is left of the link's quotas, or that it is no longer open
+      const refreshed = await GetFileRequest(token);
+      if (refreshed.success) setRequest(refreshed);
+      else setError(refreshed.error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const remaining = request && [
+    `up to ${formatBytes(Math.floor(request.maxFileBytes * request.dataChunks / (request.dataChunks + request.parityChunks)))} per file`,
+    request.remainingFiles !== null && `${request.remainingFiles} more file(s)`,
+    request.remainingBytes !== null && `${formatBytes(request.remainingBytes)} left`,
+    request.expiresAt && `open until ${new Date(request.expiresAt).toLocaleString()}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="min-h-screen bg-neutral-950 p-6 w-screen">
+      <div className="mx-auto max-w-xl">
+        <h1 className="text-2xl font-bold text-gray-100 mb-6">📥 File Request</h1>
+        <div className="bg-neutral-950 rounded-lg shadow-lg p-6 border border-gray-700 space-y-4">
+          {request ? (
+            <>
+              <div className="text-gray-100 break-words">{request.label}</div>
+              <div className="text-sm text-gray-400">
+                Files are encrypted in this browser before they are sent, only the person who asked for them can open them.
+                {remaining && <div className="mt-1">{remaining}</div>}
+              </div>
+              <input
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                disabled={isUploading}
+                className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-neutral-800 file:text-gray-200 hover:file:bg-neutral-700"
+              />
+              <button
+                onClick={handleUpload}
+                disabled={isUploading || selectedFiles.length === 0}
+                className="px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUploading ? 'Uploading...' : `⬆️ Upload ${selectedFiles.length > 1 ? `${selectedFiles.length} files` : 'file'}`}
+              </button>
+              {phaseMessage && <div className="text-sm text-gray-400">{phaseMessage}</div>}
+            </>
+          ) : !error && (
+            <div className="text-gray-400">Opening link...</div>
+          )}
+          {dropped.length > 0 && (
+            <div className="divide-y divide-gray-700 text-sm">
+              {dropped.map((file, i) => (
+                <div key={i} className="flex justify-between py-2">
+                  <span className="text-gray-100 truncate">{file.name}</span>
+                  <span className={`ml-4 ${file.error ? 'text-red-400' : 'text-gray-400'}`}>
+                    {file.error ?? `✅ ${formatBytes(file.size)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 bg-red-900/50 border border-red-700 rounded-md px-4 py-2 text-red-200 text-sm">
+              <span>⚠️</span>
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useRef, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { GetSharedFile, GetSharedFileDetails } from '../../actions';
+import { FileDetails, SharedFileDetails } from '@/lib';
+import { openDownloadSink, PlaintextSink, saveFile } from '@/lib/utils/download';
+import { formatBytes } from '@/lib/utils/format';
+import { importLinkKey, isProtectedLinkKey } from '@/lib/utils/links';
+import { readFileDetails } from '@/lib/utils/metadata';
+
+// Public page of a share link, /s/<token>#<key>. Works without logging in: the token gets
+// the chunks from the server, the key in the fragment never leaves the browser. Links with
+// a passphrase-protected key ask for the passphrase before anything is decrypted.
+export default function SharedFilePage() {
+  const { token } = useParams<{ token: string }>();
+  const [details, setDetails] = useState<FileDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [phaseMessage, setPhaseMessage] = useState('');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [locked, setLocked] = useState<{ uploadId: string; file: SharedFileDetails } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const keyRef = useRef<CryptoKey | null>(null);
+
+  // Use ref to prevent duplicate execution in React StrictMode
+  const hasInitialized = useRef(false);
+
+  useEffect(() => {
+    if (hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    openShare();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getFragmentKey = (): string => {
+    const fragmentKey = window.location.hash.slice(1);
+    if (!fragmentKey) throw new Error('This link is missing its key, ask for the complete link');
+    return fragmentKey;
+  };
+
+  const openDetails = async (uploadId: string, file: SharedFileDetails, key: CryptoKey) => {
+    const opened = await readFileDetails(uploadId, file, key).catch(() => {
+      throw new Error('The key in this link does not open this file');
+    });
+    keyRef.current = key;
+    setDetails(opened);
+  };
+
+  // Shows what the link points to, this does not count as a download
+  const openShare = async () => {
+    try {
+      const shared = await GetSharedFileDetails(token);
+      if (!shared.success) throw new Error(shared.error);
+      if (isProtectedLinkKey(getFragmentKey())) {
+        setLocked({ uploadId: shared.uploadId, file: shared.file });
+        return;
+      }
+      await openDetails(shared.uploadId, shared.file, await importLinkKey(getFragmentKey()));
+    } catch (error) {
+      console.error('Opening share failed:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Could not open this link.');
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!locked) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await openDetails(locked.uploadId, locked.file, await importLinkKey(getFragmentKey(), passphrase));
+      setLocked(null);
+      setPassphrase('');
+    } catch (error) {
+      setError(error instanceof Error && error.message ? error.message : 'Could not unlock this link.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!details || !keyRef.current) return;
+    setIsDownloading(true);
+    setError(null);
+    let sink: PlaintextSink | null = null;
+    try {
+      // The save dialog needs the click that started this, so open it before fetching metadata
+      sink = await openDownloadSink(details.filename, details.mime, details.size);
+
+      setPhaseMessage('Fetching metadata...');
+      const shared = await GetSharedFile(token);
+      if (!shared.success) throw new Error(shared.error);
+
+      // Fetch, verify and decrypt chunk by chunk straight into the sink, which saveFile aborts on failure
+      const opened = sink;
+      sink = null;
+      setPhaseMessage('Downloading...');
+      await saveFile(shared.uploadId, shared.file, keyRef.current, opened, (written, total) => {
+        setPhaseMessage(`Downloading ${formatBytes(written)} of ${formatBytes(total)} (${total > 0 ? Math.floor((written / total) * 100) : 100}%)`);
+      });
+      setPhaseMessage('Download complete.');
+    } catch (error) {
+      console.error('Download failed:', error);
+      await sink?.abort(error).catch(() => {});
+      setError(error instanceof Error && error.message ? error.message : 'Download failed.');
+      setPhaseMessage('');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-950 p-6 w-screen">
+      <div className="mx-auto max-w-xl">
+        <h1 className="text-2xl font-bold text-gray-100 mb-6">📁 Shared File</h1>
+        <div className="bg-neutral-950 rounded-lg shadow-lg p-6 border border-gray-700 space-y-4">
+          {details ? (
+            <>
+              <div className="text-gray-100 break-all">{details.filename}</div>
+              <div className="text-sm text-gray-400">{details.mime || 'Unknown type'} · {formatBytes(details.size)}</div>
+              <button
+                onClick={handleDownload}
+                disabled={isDownloading}
+                className="px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDownloading ? 'Downloading...' : '⬇️ Download'}
+              </button>
+              {phaseMessage && <div className="text-sm text-gray-400">{phaseMessage}</div>}
+            </>
+          ) : locked ? (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              <div className="text-sm text-gray-300">🔐 This link is protected. Enter the passphrase you were given with it.</div>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoFocus
+                className="w-full bg-neutral-800 text-gray-100 px-3 py-2 rounded border border-gray-700"
+              />
+              <button
+                type="submit"
+                disabled={isUnlocking || !passphrase}
+                className="px-4 py-2 bg-neutral-800 border border-gray-700 rounded-md text-gray-200 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUnlocking ? 'Unlocking...' : '🔓 Unlock'}
+              </button>
+            </form>
+          ) : !error && (
+            <div className="text-gray-400">Opening link...</div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 bg-red-900/50 border border-red-700 rounded-md px-4 py-2 text-red-200 text-sm">
+              <span>⚠️</span>
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { randomBytes } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { ErasureConfig, LoginKdf, NodeDefinition, StorageBackendConfig } from "./types";
+
+const NODE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const SIZE_UNITS: Record<string, number> = { "": 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3, T: 1024 ** 4 };
+
+/**
+ * Parses a quota such as 5368709120, "512M" or "5GB" (binary units) into bytes.
+ * Returns undefined for an empty value, NaN for anything unparseable.
+ */
+function parseSize(value: string | number | undefined): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    if (typeof value === "number") return value;
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([KMGT]?)i?B?\s*$/i.exec(value);
+    return match ? Math.floor(Number(match[1]) * SIZE_UNITS[match[2].toUpperCase()]) : NaN;
+}
+
+/**
+ * Reads the backend of env node `i` from its indexed variables.
+ * STORAGE_BACKEND_<i> selects the provider and defaults to "uploadthing":
+ * - uploadthing: UPLOADTHING_TOKEN_<i>
+ * - local: LOCAL_STORAGE_DIR_<i> (defaults to ./storage/node-<id>)
+ * - s3: S3_ENDPOINT_<i>, S3_REGION_<i>, S3_BUCKET_<i>, S3_ACCESS_KEY_ID_<i>,
+ *   S3_SECRET_ACCESS_KEY_<i>, S3_PUBLIC_URL_<i> (optional)
+ */
+function backendFromEnv(env: (name: string) => string | undefined): StorageBackendConfig {
+    const type = env("STORAGE_BACKEND") || "uploadthing";
+    switch (type) {
+        case "uploadthing":
+            return { type, token: env("UPLOADTHING_TOKEN") };
+        case "local":
+            return { type, directory: env("LOCAL_STORAGE_DIR") };
+        case "s3":
+            return {
+                type,
+                endpoint: env("S3_ENDPOINT"),
+                region: env("S3_REGION") || "us-east-1",
+                bucket: env("S3_BUCKET") || "",
+                accessKeyId: env("S3_ACCESS_KEY_ID") || "",
+                secretAccessKey: env("S3_SECRET_ACCESS_KEY") || "",
+                publicUrl: env("S3_PUBLIC_URL"),
+            };
+        default:
+            throw new Error(`Unknown storage backend: ${type}`);
+    }
+}
+
+/**
+ * Nodes from indexed environment variables, starting at 0 and stopping at the
+ * first index with neither STORAGE_BACKEND_<i> nor UPLOADTHING_TOKEN_<i>.
+ * NODE_ID_<i> defaults to "<i>", which is what uploads made before node ids existed refer to.
+ */
+function nodesFromEnv(): NodeDefinition[] {
+    const nodes: NodeDefinition[] = [];
+    for (let i = 0; ; i++) {
+        const env = (name: string) => process.env[`${name}_${i}`];
+        if (env("STORAGE_BACKEND") === undefined && env("UPLOADTHING_TOKEN") === undefined) break;
+        const id = env("NODE_ID") || String(i);
+        nodes.push({
+            id,
+            label: env("NODE_LABEL") || `Node ${id}`,
+            weight: env("NODE_WEIGHT") !== undefined ? Number(env("NODE_WEIGHT")) : 1,
+            enabled: env("NODE_ENABLED") !== "false",
+            quota: parseSize(env("NODE_QUOTA")),
+            backend: backendFromEnv(env),
+        });
+    }
+    return nodes;
+}
+
+/**
+ * Nodes from the JSON file at NODES_CONFIG_FILE, an array of
+ * { id, label?, weight?, enabled?, quota?, backend: { type, ... } }.
+ */
+function nodesFromFile(file: string): NodeDefinition[] {
+    if (!existsSync(file)) {
+        throw new Error(`NODES_CONFIG_FILE not found: ${file}`);
+    }
+    const raw = JSON.parse(readFileSync(file, "utf8")) as (Omit<Partial<NodeDefinition>, "quota"> & { quota?: number | string })[];
+    if (!Array.isArray(raw)) {
+        throw new Error(`${file} must contain an array of nodes`);
+    }
+    return raw.map(node => ({
+        id: String(node.id),
+        label: node.label || `Node ${node.id}`,
+        weight: node.weight ?? 1,
+        enabled: node.enabled ?? true,
+        quota: parseSize(node.quota),
+        backend: node.backend as StorageBackendConfig,
+    }));
+}
+
+function loadNodeDefinitions(): NodeDefinition[] {
+    const file = process.env.NODES_CONFIG_FILE;
+    const nodes = file ? nodesFromFile(path.resolve(file)) : nodesFromEnv();
+
+    const seen = new Set<string>();
+    for (const node of nodes) {
+        if (!NODE_ID_PATTERN.test(node.id)) {
+            throw new Error(`Invalid node id "${node.id}", use letters, digits, "-" and "_"`);
+        }
+        if (seen.has(node.id)) {
+            throw new Error(`Duplicate node id "${node.id}"`);
+        }
+        if (!Number.isFinite(node.weight) || node.weight < 0) {
+            throw new Error(`Node "${node.id}" needs a non-negative weight`);
+        }
+        if (node.quota !== undefined && !(Number.isFinite(node.quota) && node.quota >= 0)) {
+            throw new Error(`Node "${node.id}" has an invalid quota, use bytes or a size like "5GB"`);
+        }
+        if (!node.backend?.type) {
+            throw new Error(`Node "${node.id}" has no backend type`);
+        }
+        seen.add(node.id);
+    }
+    return nodes;
+}
+
+export const nodeDefinitions = loadNodeDefinitions();
+
+// Signs URLs the app serves itself (direct uploads to local nodes). Without
+// STORAGE_SIGNING_SECRET a random secret is used, which only lasts until restart.
+export const storageSigningSecret = process.env.STORAGE_SIGNING_SECRET || randomBytes(32).toString("hex");
+
+// Derives the login salts of usernames without an account, see getLoginKdf. Without
+// LOGIN_DECOY_SECRET a random secret is used, which only lasts until restart.
+export const loginDecoySecret = process.env.LOGIN_DECOY_SECRET || randomBytes(32).toString("hex");
+
+// Nodes that may receive new chunks
+export function getWritableNodes(): NodeDefinition[] {
+    return nodeDefinitions.filter(node => node.enabled && node.weight > 0);
+}
+
+/**
+ * Reads the erasure coding layout from ERASURE_DATA_CHUNKS (k, defaults to
+ * every writable node not used for parity) and ERASURE_PARITY_CHUNKS (m, default 0).
+ * Every chunk lives on its own node, so k + m can not exceed the number of writable nodes.
+ */
+export function getErasureConfig(): ErasureConfig {
+    const writable = getWritableNodes().length;
+    const parityChunks = parseInt(process.env.ERASURE_PARITY_CHUNKS || "0");
+    const dataChunks = process.env.ERASURE_DATA_CHUNKS
+        ? parseInt(process.env.ERASURE_DATA_CHUNKS)
+        : writable - parityChunks;
+
+    if (!Number.isInteger(dataChunks) || dataChunks < 1) {
+        throw new Error("ERASURE_DATA_CHUNKS must be a positive integer");
+    }
+    if (!Number.isInteger(parityChunks) || parityChunks < 0) {
+        throw new Error("ERASURE_PARITY_CHUNKS must be a non-negative integer");
+    }
+    if (dataChunks + parityChunks > writable) {
+        throw new Error(`ERASURE_DATA_CHUNKS + ERASURE_PARITY_CHUNKS must not exceed ${writable} writable nodes`);
+    }
+    return { dataChunks, parityChunks };
+}
+
+/**
+ * Default number of copies written for every chunk, from REPLICATION_FACTOR (default 1).
+ * Copies of the same chunk need distinct nodes.
+ */
+export function getReplicationFactor(): number {
+    const factor = parseInt(process.env.REPLICATION_FACTOR || "1");
+    const writable = getWritableNodes().length;
+    if (!Number.isInteger(factor) || factor < 1) {
+        throw new Error("REPLICATION_FACTOR must be a positive integer");
+    }
+    if (factor > writable) {
+        throw new Error(`REPLICATION_FACTOR must not exceed ${writable} writable nodes`);
+    }
+    return factor;
+}
+
+// Lowest costs accepted for a passphrase derivation, whatever the configuration asks for
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MIN_ARGON2_MEMORY = 19 * 1024;
+const MIN_ARGON2_ITERATIONS = 2;
+
+function positiveIntFromEnv(name: string, fallback: number, minimum = 1): number {
+    const value = parseInt(process.env[name] || String(fallback));
+    if (!Number.isInteger(value) || value < minimum) {
+        throw new Error(`${name} must be an integer of at least ${minimum}`);
+    }
+    return value;
+}
+
+/**
+ * Passphrase derivation for new passphrases and upgraded accounts, with a fresh salt.
+ * LOGIN_KDF is "pbkdf2" (default, 600,000 iterations) or "argon2id" (64 MiB, 3 passes,
+ * 1 lane); LOGIN_KDF_ITERATIONS, LOGIN_KDF_MEMORY (KiB) and LOGIN_KDF_PARALLELISM override the cost.
+ */
+export function newLoginKdf(): LoginKdf {
+    const salt = randomBytes(16).toString("base64");
+    const algorithm = process.env.LOGIN_KDF || "pbkdf2";
+    switch (algorithm) {
+        case "pbkdf2":
+            return {
+                version: 2,
+                algorithm: "pbkdf2-sha256",
+                salt,
+                iterations: positiveIntFromEnv("LOGIN_KDF_ITERATIONS", 600_000, MIN_PBKDF2_ITERATIONS),
+            };
+        case "argon2id":
+            return {
+                version: 2,
+                algorithm: "argon2id",
+                salt,
+                iterations: positiveIntFromEnv("LOGIN_KDF_ITERATIONS", 3, MIN_ARGON2_ITERATIONS),
+                memory: positiveIntFromEnv("LOGIN_KDF_MEMORY", 64 * 1024, MIN_ARGON2_MEMORY),
+                parallelism: positiveIntFromEnv("LOGIN_KDF_PARALLELISM", 1),
+            };
+        default:
+            throw new Error(`Unknown LOGIN_KDF: ${algorithm}`);
+    }
+}
+
+// Whether a derivation is strong enough to store, as sent by a client registering or changing its passphrase
+export function isAcceptableLoginKdf(kdf: LoginKdf): boolean {
+    if (kdf?.version !== 2 || typeof kdf.salt !== "string" || Buffer.from(kdf.salt, "base64").byteLength < 16) {
+        return false;
+    }
+    switch (kdf.algorithm) {
+        case "pbkdf2-sha256":
+            return Number.isInteger(kdf.iterations) && kdf.iterations >= MIN_PBKDF2_ITERATIONS;
+        case "argon2id":
+            return Number.isInteger(kdf.iterations) && kdf.iterations >= MIN_ARGON2_ITERATIONS
+                && Number.isInteger(kdf.memory) && kdf.memory >= MIN_ARGON2_MEMORY
+                && Number.isInteger(kdf.parallelism) && kdf.parallelism >= 1;
+        default:
+            return false;
+    }
+}
+
+// Whether an account's derivation is what newLoginKdf() would produce apart from the salt, otherwise it is upgraded on login
+export function isCurrentLoginKdf(kdf: LoginKdf): boolean {
+    const current: Record<string, unknown> = newLoginKdf();
+    const stored: Record<string, unknown> = kdf;
+    return Object.keys(current).every(name => name === "salt" || stored[name] === current[name]);
+}
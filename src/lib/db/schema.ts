@@ -1,7 +1,7 @@
 import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
 import 'dotenv/config';
 import { drizzle } from 'drizzle-orm/libsql';
-import { UploadPart } from '../types';
+import { CompressionInfo, EncryptionInfo, FileHealth, KeyVaultParams, LoginKdf, UploadMeta, UploadPart, UserRole } from '../types';
 import { randomUUID } from 'crypto';
 
 const db = drizzle(process.env.DB_FILE_NAME!);
@@ -13,12 +13,130 @@ const uploads = sqliteTable('uploads', {
     mimeType: text('mime_type').notNull(),
     uploadParts: text('upload_parts', { mode: 'json' }).$type<UploadPart[]>().notNull(),
     fileHash: text('file_hash').notNull(),
+    ownerId: text('owner_id'), // The user it belongs to, null only until a single-user install is moved to accounts
+    encryption: text('encryption', { mode: 'json' }).$type<EncryptionInfo>(), // Null for single-message chunks
+    compression: text('compression', { mode: 'json' }).$type<CompressionInfo>(), // Null when stored uncompressed
+    wrappedKey: text('wrapped_key'), // File key wrapped under the owner's vault key, null when only the link holds it
+    sealedDetails: text('sealed_details'), // Name, type and size encrypted under the file key, the columns above hold placeholders then
+    requestId: text('request_id'), // The file request it was dropped through, null for the owner's uploads
+    dropKey: text('drop_key'), // File key wrapped to the request's public key, see utils/drop.ts
     createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+    // Result of the last scrub, null until the file has been scrubbed once
+    health: text('health').$type<FileHealth>(),
+    scrubbedAt: integer('scrubbed_at', { mode: 'timestamp' }),
 });
 
+// Chunks uploaded to a node but not yet referenced by an `uploads` row.
+// Rows are removed when the upload commits or its chunks are rolled back;
+// anything left behind is an orphan candidate.
+const pendingParts = sqliteTable('pending_parts', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    transactionId: text('transaction_id').notNull(),
+    node: text('node').notNull(),
+    key: text('key').notNull(),
+    size: integer('size'), // Stored bytes, counted against the node quota while pending
+    chunk: integer('chunk'), // Position of the chunk in a direct upload, null otherwise
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// Direct uploads that were prepared but not finalized yet. The expected chunks and
+// their hashes are fixed up front, so an interrupted upload can be resumed by sending
+// only the chunks missing from `storedChunks`. The pending_parts rows of the
+// transaction hold the copies. Rows are removed on finalize or abort.
+const uploadSessions = sqliteTable('upload_sessions', {
+    id: text('id').primaryKey(), // The transaction id of the pending parts
+    uploadId: text('upload_id').notNull(), // Id of the uploads row once finalized
+    ownerId: text('owner_id'), // The user who prepared it, only they can resume or finalize it
+    meta: text('meta', { mode: 'json' }).$type<UploadMeta>().notNull(),
+    chunkSizes: text('chunk_sizes', { mode: 'json' }).$type<number[]>().notNull(),
+    chunkHashes: text('chunk_hashes', { mode: 'json' }).$type<string[]>().notNull(),
+    fileHash: text('file_hash').notNull(),
+    parityCount: integer('parity_count').notNull(),
+    replication: integer('replication').notNull(),
+    storedChunks: text('stored_chunks', { mode: 'json' }).$type<number[]>().notNull(), // Chunks with every copy verified
+    wrappingKey: text('wrapping_key').notNull(), // Unwraps the key material the client keeps in local storage
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Progress of moving chunks off a node, so an interrupted migration can be resumed
+const nodeMigrations = sqliteTable('node_migrations', {
+    id: text('id').primaryKey().$defaultFn(() => randomUUID()),
+    sourceNode: text('source_node').notNull(),
+    targetNodes: text('target_nodes', { mode: 'json' }).$type<string[]>().notNull(), // Empty means any writable node
+    status: text('status').$type<'running' | 'completed' | 'failed'>().notNull(),
+    totalChunks: integer('total_chunks').notNull().default(0),
+    movedChunks: integer('moved_chunks').notNull().default(0),
+    failedChunks: integer('failed_chunks').notNull().default(0),
+    lastError: text('last_error'),
+    startedAt: integer('started_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// Links that let anyone with the token download one upload or collection without a session.
+// The key stays in the link fragment, the server only ever sees the token. A share is usable
+// until it expires, runs out of downloads or is revoked; its row is kept so the owner can see that.
+const shares = sqliteTable('shares', {
+    id: text('id').primaryKey(), // The token in the link
+    ownerId: text('owner_id'), // The user who created it
+    uploadId: text('upload_id'), // Exactly one of uploadId and collectionId is set
+    collectionId: text('collection_id'),
+    maxDownloads: integer('max_downloads'), // Null for no limit
+    downloads: integer('downloads').notNull().default(0),
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }), // Null for no expiry
+    revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+});
+
+// Uploads shared together under one link. The manifest holding their file keys is encrypted
+// under a collection key that only the link carries; the member ids are kept in the clear so
+// the server can tell which uploads a collection share may download.
+const collections = sqliteTable('collections', {
+    id: text('id').primaryKey(), // Chosen by the client, the manifest is bound to it
+    uploadIds: text('upload_ids', { mode: 'json' }).$type<string[]>().notNull(),
+    manifest: text('manifest').notNull(), // base64(IV||C) of the CollectionManifest
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// Links outsiders use to upload files for the owner, see utils/drop.ts. The server only holds
+// the private key sealed under a request key that the owner's vault wraps, so it can read
+// neither the keys nor the files. Quotas count what was accepted, a failed upload gives it back.
+const fileRequests = sqliteTable('file_requests', {
+    id: text('id').primaryKey(), // The token in the link
+    ownerId: text('owner_id'), // The user dropped files go to
+    label: text('label').notNull(), // Shown to uploaders
+    publicKey: text('public_key').notNull(), // base64 raw ECDH P-256 key, also in the link
+    wrappedKey: text('wrapped_key').notNull(), // Request key wrapped under the owner's vault key
+    sealedPrivateKey: text('sealed_private_key').notNull(),
+    maxFiles: integer('max_files'), // Null for no limit
+    maxBytes: integer('max_bytes'), // Uploaded chunk bytes, parity included; null for no limit
+    files: integer('files').notNull().default(0),
+    bytes: integer('bytes').notNull().default(0),
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }), // Null for no expiry
+    closedAt: integer('closed_at', { mode: 'timestamp' }),
+});
+
+// Accounts. Admins invite users: an invite is a row without a public key, registered with its token.
+// Every user has their own login key, key vault and files
+const users = sqliteTable('users', {
+    id: text('id').primaryKey().$defaultFn(() => randomUUID()),
+    username: text('username').notNull().unique(),
+    role: text('role').$type<UserRole>().notNull().default('member'),
+    publicKey: text('public_key'), // Null until the invite is used
+    kdf: text('kdf', { mode: 'json' }).$type<LoginKdf>(), // Null for accounts from before salted derivation (version 1)
+    keyVault: text('key_vault', { mode: 'json' }).$type<KeyVaultParams>(), // Created on the first login that needs it
+    inviteToken: text('invite_token').unique(), // Cleared on registration
+    inviteExpiresAt: integer('invite_expires_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// The account of a single-user install, from before `users`. Moved there as an admin on first use
 const loginParameter = sqliteTable('login_parameter', {
     id: integer('id').primaryKey().$defaultFn(() => 1), // Single row for single user
     publicKey: text('public_key').notNull(),
+    kdf: text('kdf', { mode: 'json' }).$type<LoginKdf>(), // Null for accounts from before salted derivation (version 1)
+    keyVault: text('key_vault', { mode: 'json' }).$type<KeyVaultParams>(), // Created on the first login that needs it
 })
 
-export { db, uploads, loginParameter };
+export { db, uploads, pendingParts, uploadSessions, nodeMigrations, shares, collections, fileRequests, users, loginParameter };
@@ -1,3 +1,4 @@
 export * from './db/schema';
-export * from './utils/uploadthing';
-export * from './types'
\ No newline at end of file
+export * from './storage';
+export * from './config';
+export * from './types'
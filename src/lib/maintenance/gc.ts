@@ -0,0 +1,93 @@
+import { and, eq, inArray, lt, notInArray } from "drizzle-orm";
+import { nodeDefinitions } from "../config";
+import { db, pendingParts, uploads } from "../db/schema";
+import { getStorageBackend } from "../storage";
+import { deleteExpiredUploadSessions, listUploadSessions } from "../storage/sessions";
+import { StoredObject } from "../types";
+import { partLocations } from "../utils/parts";
+
+// Objects and pending parts younger than this may belong to an upload still in flight
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+// An object reported by a dry run, confirmed for deletion
+export type OrphanKey = { node: string; key: string };
+
+export type NodeGcReport = {
+    node: string;
+    label: string;
+    listed: number;
+    orphans: StoredObject[];
+    deleted: number;
+    error?: string;
+}
+
+/**
+ * Keys referenced by committed uploads, by pending parts within the grace period and
+ * by pending parts of upload sessions that can still be resumed, grouped by node id.
+ */
+async function referencedKeys(cutoff: Date, resumable: Set<string>): Promise<Map<string, Set<string>>> {
+    const referenced = new Map<string, Set<string>>();
+    const add = (node: string, key: string) => {
+        if (!referenced.has(node)) referenced.set(node, new Set());
+        referenced.get(node)!.add(key);
+    };
+
+    const rows = await db.select({ uploadParts: uploads.uploadParts }).from(uploads);
+    for (const row of rows) {
+        row.uploadParts.forEach((part, i) => partLocations(part, i).forEach(l => add(l.node, l.key)));
+    }
+
+    const pending = await db.select().from(pendingParts);
+    for (const part of pending) {
+        if ((part.createdAt && part.createdAt >= cutoff) || resumable.has(part.transactionId)) add(part.node, part.key);
+    }
+    return referenced;
+}
+
+/**
+ * Lists every configured node and reports the objects no upload refers to.
+ * Nothing is deleted unless `confirm` holds orphans reported by an earlier run; of
+ * those, the ones that are still orphans now are deleted, anything else is left alone.
+ * Objects uploaded and pending parts recorded within the grace period are never
+ * reported or dropped, they may belong to an upload in progress. A run with `confirm`
+ * also drops expired upload sessions and stale pending parts whose object is gone.
+ */
+export async function collectOrphans({ confirm }: { confirm?: OrphanKey[] } = {}): Promise<NodeGcReport[]> {
+    const cutoff = new Date(Date.now() - GRACE_PERIOD_MS);
+    const resumable = new Set((await listUploadSessions()).map(s => s.id));
+    const referenced = await referencedKeys(cutoff, resumable);
+
+    const reports = await Promise.all(nodeDefinitions.map(async (node): Promise<NodeGcReport> => {
+        const report: NodeGcReport = { node: node.id, label: node.label, listed: 0, orphans: [], deleted: 0 };
+        try {
+            const backend = getStorageBackend(node.id);
+            const objects = await backend.list();
+            const keys = referenced.get(node.id) ?? new Set();
+            report.listed = objects.length;
+            report.orphans = objects.filter(o => !keys.has(o.key) && !(o.uploadedAt && o.uploadedAt >= cutoff));
+
+            if (confirm) {
+                const confirmed = new Set(confirm.filter(o => o.node === node.id).map(o => o.key));
+                const orphanKeys = report.orphans.map(o => o.key).filter(key => confirmed.has(key));
+                if (orphanKeys.length > 0) await backend.delete(orphanKeys);
+                report.deleted = orphanKeys.length;
+                // Stale pending parts on this node whose object was just deleted or was never stored
+                const deleted = new Set(orphanKeys);
+                const remaining = new Set(objects.map(o => o.key).filter(key => !deleted.has(key)));
+                const stale = await db.select({ id: pendingParts.id, key: pendingParts.key }).from(pendingParts).where(and(
+                    eq(pendingParts.node, node.id),
+                    lt(pendingParts.createdAt, cutoff),
+                    notInArray(pendingParts.transactionId, [...resumable]),
+                ));
+                const gone = stale.filter(part => !remaining.has(part.key)).map(part => part.id);
+                if (gone.length > 0) await db.delete(pendingParts).where(inArray(pendingParts.id, gone));
+            }
+        } catch (error) {
+            report.error = error instanceof Error ? error.message : String(error);
+        }
+        return report;
+    }));
+
+    if (confirm) await deleteExpiredUploadSessions();
+    return reports;
+}
@@ -0,0 +1,213 @@
+import { createHash } from "crypto";
+import { and, eq, inArray } from "drizzle-orm";
+import { getWritableNodes, nodeDefinitions } from "../config";
+import { db, nodeMigrations, pendingParts, uploads } from "../db/schema";
+import { getStorageBackend, InsufficientCapacityError } from "../storage";
+import { PlacedObject, rollbackChunks, uploadChunks } from "../storage/transaction";
+import { ChunkLocation, NodeDefinition, UploadPart } from "../types";
+import { partLocations } from "../utils/parts";
+
+export type NodeMigration = typeof nodeMigrations.$inferSelect;
+
+export type MigrateOptions = {
+    from?: string; // Node to empty, required unless resuming
+    to?: string[]; // Target nodes, any writable node when empty
+    resume?: string; // Id of an interrupted migration
+}
+
+type Move = { part: number; from: ChunkLocation; to: ChunkLocation };
+
+function sha256Base64(bytes: Uint8Array): string {
+    return createHash("sha256").update(bytes).digest("base64");
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Reads a healthy copy of the part, starting with the one on the source node
+async function readVerified(part: UploadPart, locations: ChunkLocation[]): Promise<Uint8Array> {
+    let lastError: unknown = null;
+    for (const location of locations) {
+        try {
+            const bytes = await getStorageBackend(location.node).download(location.key);
+            if (sha256Base64(bytes) !== part.hash) throw new Error(`hash mismatch on node ${location.node}`);
+            return bytes;
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    throw new Error(`No healthy copy of ${part.key}: ${errorMessage(lastError)}`);
+}
+
+/**
+ * Copies one chunk to a target node, placed within the node quotas like a new upload,
+ * and reads it back to check the hash. Targets holding no chunk of the upload are
+ * preferred, those holding a copy of the part are never used. The copy is tracked in
+ * pending_parts until the upload row points at it, one that fails verification is rolled back.
+ */
+async function copyChunk(
+    migrationId: string,
+    parts: UploadPart[],
+    position: number,
+    source: ChunkLocation,
+    targets: NodeDefinition[],
+): Promise<ChunkLocation> {
+    const part = parts[position];
+    const others = partLocations(part, position).filter(l => l.key !== source.key || l.node !== source.node);
+    const bytes = await readVerified(part, [source, ...others]);
+
+    const file = new File([new Uint8Array(bytes)], part.name);
+    const outside = getWritableNodes().filter(n => !targets.some(t => t.id === n.id)).map(n => n.id);
+    const partNodes = partLocations(part, position).map(l => l.node);
+    const uploadNodes = parts.flatMap((p, i) => partLocations(p, i).map(l => l.node));
+    let stored: PlacedObject;
+    try {
+        [[stored]] = await uploadChunks([file], migrationId, 1, [[...outside, ...uploadNodes]]);
+    } catch (error) {
+        if (!(error instanceof InsufficientCapacityError)) throw error;
+        [[stored]] = await uploadChunks([file], migrationId, 1, [[...outside, ...partNodes]]);
+    }
+
+    const copy = await getStorageBackend(stored.node).download(stored.key).catch(() => null);
+    if (!copy || sha256Base64(copy) !== part.hash) {
+        await rollbackChunks(migrationId, [stored]);
+        throw new Error(`copy on node ${stored.node} failed verification`);
+    }
+    return { node: stored.node, key: stored.key, url: stored.url };
+}
+
+async function startMigration({ from, to = [], resume }: MigrateOptions): Promise<NodeMigration> {
+    if (resume) {
+        const [existing] = await db.select().from(nodeMigrations).where(eq(nodeMigrations.id, resume));
+        if (!existing) throw new Error(`Migration not found: ${resume}`);
+        const [row] = await db.update(nodeMigrations)
+            .set({ status: "running", failedChunks: 0, lastError: null, updatedAt: new Date() })
+            .where(eq(nodeMigrations.id, resume))
+            .returning();
+        return row;
+    }
+
+    if (!from || !nodeDefinitions.some(n => n.id === from)) {
+        throw new Error(`Unknown source node: ${from}`);
+    }
+    const unknown = to.filter(id => !nodeDefinitions.some(n => n.id === id));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown target node(s): ${unknown.join(", ")}`);
+    }
+    const [row] = await db.insert(nodeMigrations).values({
+        sourceNode: from,
+        targetNodes: to,
+        status: "running",
+    }).returning();
+    return row;
+}
+
+/**
+ * Moves every chunk copy stored on the source node to other nodes, without
+ * re-encrypting anything. Each copy is verified against UploadPart.hash, the
+ * upload row is updated in a transaction, and only then is the original deleted.
+ * Progress is stored in node_migrations; running again with `resume` continues
+ * with whatever is still on the source node.
+ */
+export async function migrateNode(
+    options: MigrateOptions,
+    onProgress?: (migration: NodeMigration) => void,
+): Promise<NodeMigration> {
+    let migration = await startMigration(options);
+    const source = migration.sourceNode;
+    const targets = (migration.targetNodes.length > 0
+        ? nodeDefinitions.filter(n => migration.targetNodes.includes(n.id))
+        : nodeDefinitions
+    ).filter(n => n.id !== source && n.enabled && n.weight > 0);
+    if (targets.length === 0) {
+        throw new Error("No enabled target node to migrate to");
+    }
+
+    const rows = (await db.select({ id: uploads.id, uploadParts: uploads.uploadParts }).from(uploads))
+        .filter(row => row.uploadParts.some((p, i) => partLocations(p, i).some(l => l.node === source)));
+    const remaining = rows.reduce((n, row) =>
+        n + row.uploadParts.flatMap((p, i) => partLocations(p, i)).filter(l => l.node === source).length, 0);
+
+    const progress = async (changes: Partial<NodeMigration>) => {
+        [migration] = await db.update(nodeMigrations)
+            .set({ ...changes, updatedAt: new Date() })
+            .where(eq(nodeMigrations.id, migration.id))
+            .returning();
+        onProgress?.(migration);
+    };
+    await progress({ totalChunks: migration.movedChunks + remaining });
+
+    for (const row of rows) {
+        const moves: Move[] = [];
+        let failed = 0;
+        let lastError: string | null = null;
+        // Tracks where copies end up, so later chunks of the same upload spread over other nodes
+        const working = [...row.uploadParts];
+        for (let i = 0; i < row.uploadParts.length; i++) {
+            for (const location of partLocations(row.uploadParts[i], i).filter(l => l.node === source)) {
+                try {
+                    const to = await copyChunk(migration.id, working, i, location, targets);
+                    moves.push({ part: i, from: location, to });
+                    working[i] = { ...working[i], replicas: [...(working[i].replicas ?? []), to] };
+                } catch (error) {
+                    failed++;
+                    lastError = `${row.id}: ${errorMessage(error)}`;
+                }
+            }
+        }
+
+        // Compare-and-set, as the scrubber does: the upload is pointed at the new copies and
+        // they are released from pending_parts only if the row is unchanged since it was read
+        if (moves.length > 0) {
+            let committed = false;
+            try {
+                committed = await db.transaction(async (tx) => {
+                    const [current] = await tx.select({ uploadParts: uploads.uploadParts }).from(uploads).where(eq(uploads.id, row.id));
+                    if (!current || JSON.stringify(current.uploadParts) !== JSON.stringify(row.uploadParts)) return false;
+                    const updated = row.uploadParts.map((part, i) => {
+                        const locations = partLocations(part, i).map(l =>
+                            moves.find(m => m.part === i && m.from.node === l.node && m.from.key === l.key)?.to ?? l);
+                        const [primary, ...replicas] = locations;
+                        return { ...part, node: primary.node, key: primary.key, url: primary.url, replicas };
+                    });
+                    await tx.update(uploads).set({ uploadParts: updated }).where(eq(uploads.id, row.id));
+                    await tx.delete(pendingParts).where(and(
+                        eq(pendingParts.transactionId, migration.id),
+                        inArray(pendingParts.key, moves.map(m => m.to.key)),
+                    ));
+                    return true;
+                });
+                if (!committed) lastError = `${row.id}: changed during the migration, resume to move it`;
+            } catch (error) {
+                lastError = `${row.id}: ${errorMessage(error)}`;
+            }
+            if (!committed) {
+                // The originals stay referenced, drop the copies (leftovers stay pending for the orphan collector)
+                await rollbackChunks(migration.id, moves.map(m => m.to));
+                failed += moves.length;
+                moves.length = 0;
+            }
+        }
+
+        if (moves.length > 0) {
+            // Originals are no longer referenced; if a delete fails the orphan collector gets it
+            await getStorageBackend(source).delete(moves.map(m => m.from.key)).catch(error => {
+                console.warn(`Failed to delete originals of ${row.id} on node ${source}:`, error);
+            });
+        }
+
+        await progress({
+            movedChunks: migration.movedChunks + moves.length,
+            failedChunks: migration.failedChunks + failed,
+            ...(lastError ? { lastError } : {}),
+        });
+    }
+
+    await progress({ status: migration.failedChunks > 0 ? "failed" : "completed" });
+    return migration;
+}
+
+export async function listMigrations(): Promise<NodeMigration[]> {
+    return db.select().from(nodeMigrations);
+}
@@ -0,0 +1,190 @@
+import { createHash, randomUUID } from "crypto";
+import { eq } from "drizzle-orm";
+import { db, pendingParts, uploads } from "../db/schema";
+import { getStorageBackend } from "../storage";
+import { PlacedObject, rollbackChunks, uploadChunks } from "../storage/transaction";
+import { ChunkLocation, FileHealth, UploadPart } from "../types";
+import { encodeParity, reconstructData } from "../utils/erasure";
+import { partLocations } from "../utils/parts";
+
+export type ScrubReport = {
+    id: string;
+    fileName: string;
+    health: FileHealth;
+    checkedCopies: number;
+    damagedCopies: number;
+    repairedCopies: number;
+    errors: string[];
+}
+
+type CopyState = {
+    location: ChunkLocation;
+    bytes: Uint8Array | null; // null when missing, unreadable or failing the hash check
+}
+
+function sha256Base64(bytes: Uint8Array): string {
+    return createHash("sha256").update(bytes).digest("base64");
+}
+
+async function checkCopy(part: UploadPart, location: ChunkLocation, errors: string[]): Promise<CopyState> {
+    try {
+        const bytes = await getStorageBackend(location.node).download(location.key);
+        if (sha256Base64(bytes) !== part.hash) {
+            errors.push(`${location.key} on node ${location.node}: hash mismatch`);
+            return { location, bytes: null };
+        }
+        return { location, bytes };
+    } catch (error) {
+        errors.push(`${location.key} on node ${location.node}: ${error instanceof Error ? error.message : String(error)}`);
+        return { location, bytes: null };
+    }
+}
+
+/**
+ * Recovers the bytes of every part from healthy copies or, where no copy
+ * survived, from parity. Parts that can not be recovered stay null.
+ */
+function recoverParts(parts: UploadPart[], healthy: (Uint8Array | null)[]): (Uint8Array | null)[] {
+    if (healthy.every(b => b !== null)) return healthy;
+
+    // Shard order is data parts by index, then parity parts by index
+    const order = parts
+        .map((part, position) => ({ position, role: part.role ?? "data", index: part.index ?? position }))
+        .sort((a, b) => (a.role === b.role ? a.index - b.index : a.role === "data" ? -1 : 1));
+    const dataOrder = order.filter(o => o.role === "data");
+    const parityCount = order.length - dataOrder.length;
+    if (parityCount === 0) return healthy;
+
+    try {
+        const data = reconstructData(
+            order.map(o => healthy[o.position]),
+            dataOrder.length,
+            dataOrder.map(o => parts[o.position].size ?? 0),
+        );
+        const parity = encodeParity(data, parityCount);
+        const rebuilt = [...healthy];
+        order.forEach((o, i) => {
+            const bytes = i < data.length ? data[i] : parity[i - data.length];
+            // Only trust rebuilt bytes that match the recorded hash
+            if (!rebuilt[o.position] && sha256Base64(bytes) === parts[o.position].hash) {
+                rebuilt[o.position] = bytes;
+            }
+        });
+        return rebuilt;
+    } catch {
+        return healthy;
+    }
+}
+
+/**
+ * Stores a fresh copy of a part in place of a damaged one, placed within the node quotas
+ * and tracked in pending_parts under `transactionId` until the upload row points at it.
+ * The damaged copy's node is eligible again, nodes holding the part's other copies are not.
+ */
+async function rewriteCopy(part: UploadPart, bytes: Uint8Array, others: ChunkLocation[], transactionId: string): Promise<PlacedObject> {
+    const [[stored]] = await uploadChunks([new File([new Uint8Array(bytes)], part.name)], transactionId, 1, [others.map(l => l.node)]);
+    return stored;
+}
+
+/**
+ * Verifies every copy of every chunk of one upload and records its health.
+ * Unless `repair` is false, damaged copies are rewritten from a healthy copy or rebuilt
+ * from parity, and the upload row is updated with their new locations. The update only
+ * happens if the row is unchanged since it was read; otherwise, e.g. after a node
+ * migration or a delete in the meantime, the new copies are dropped again.
+ */
+export async function scrubUpload(id: string, { repair = true } = {}): Promise<ScrubReport> {
+    const [row] = await db.select().from(uploads).where(eq(uploads.id, id));
+    if (!row) {
+        throw new Error(`Upload not found: ${id}`);
+    }
+
+    const errors: string[] = [];
+    const parts = row.uploadParts;
+    const copies = await Promise.all(parts.map((part, i) =>
+        Promise.all(partLocations(part, i).map(location => checkCopy(part, location, errors))),
+    ));
+
+    const checkedCopies = copies.flat().length;
+    const damagedCopies = copies.flat().filter(c => !c.bytes).length;
+    const recovered = recoverParts(parts, copies.map(c => c.find(copy => copy.bytes)?.bytes ?? null));
+
+    const transactionId = randomUUID();
+    const placed: PlacedObject[] = [];
+    const replaced: ChunkLocation[] = [];
+    const updatedParts = [...parts];
+    if (repair && damagedCopies > 0) {
+        await Promise.all(parts.map(async (part, i) => {
+            const bytes = recovered[i];
+            if (!bytes) return;
+            const locations = copies[i].map(c => c.location);
+            for (let li = 0; li < copies[i].length; li++) {
+                if (copies[i][li].bytes) continue;
+                try {
+                    const stored = await rewriteCopy(part, bytes, locations.filter((_, j) => j !== li), transactionId);
+                    placed.push(stored);
+                    replaced.push(locations[li]);
+                    locations[li] = { node: stored.node, key: stored.key, url: stored.url };
+                } catch (error) {
+                    errors.push(`Repair of ${locations[li].key} failed: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            const [primary, ...replicas] = locations;
+            updatedParts[i] = { ...part, node: primary.node, key: primary.key, url: primary.url, replicas };
+        }));
+    }
+
+    // Compare-and-set: the repair only lands on the row as it was read
+    const committed = await db.transaction(async (tx) => {
+        const [current] = await tx.select({ uploadParts: uploads.uploadParts }).from(uploads).where(eq(uploads.id, id));
+        if (!current || JSON.stringify(current.uploadParts) !== JSON.stringify(parts)) return false;
+        if (placed.length > 0) {
+            await tx.update(uploads).set({ uploadParts: updatedParts }).where(eq(uploads.id, id));
+            await tx.delete(pendingParts).where(eq(pendingParts.transactionId, transactionId));
+        }
+        return true;
+    });
+
+    let repairedCopies = placed.length;
+    if (!committed) {
+        errors.push(`${id} changed while it was scrubbed, run the scrub again`);
+        await rollbackChunks(transactionId, placed);
+        repairedCopies = 0;
+    } else if (replaced.length > 0) {
+        // Best effort, the damaged objects may already be gone
+        await Promise.all(replaced.map(l => getStorageBackend(l.node).delete([l.key]).catch(() => {})));
+    }
+
+    const lost = recovered.some(b => !b);
+    const health: FileHealth = lost
+        ? "lost"
+        : damagedCopies === 0
+            ? "healthy"
+            : repairedCopies === damagedCopies
+                ? "repaired"
+                : "degraded";
+
+    if (committed) {
+        await db.update(uploads).set({ health, scrubbedAt: new Date() }).where(eq(uploads.id, id));
+    }
+
+    return { id, fileName: row.originalFileName, health, checkedCopies, damagedCopies, repairedCopies, errors };
+}
+
+/**
+ * Scrubs every upload one after another.
+ * @param onReport - Called after each upload, e.g. to print progress.
+ */
+export async function scrubAll(
+    { repair = true } = {},
+    onReport?: (report: ScrubReport, done: number, total: number) => void,
+): Promise<ScrubReport[]> {
+    const rows = await db.select({ id: uploads.id }).from(uploads);
+    const reports: ScrubReport[] = [];
+    for (const { id } of rows) {
+        const report = await scrubUpload(id, { repair });
+        reports.push(report);
+        onReport?.(report, reports.length, rows.length);
+    }
+    return reports;
+}
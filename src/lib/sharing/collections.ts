@@ -0,0 +1,15 @@
+import { inArray } from "drizzle-orm";
+import { collections, db } from "../db/schema";
+
+export type Collection = typeof collections.$inferSelect;
+
+export async function createCollection(id: string, uploadIds: string[], manifest: string): Promise<Collection> {
+    const [collection] = await db.insert(collections).values({ id, uploadIds, manifest }).returning();
+    return collection;
+}
+
+// Collections by id, in no particular order; unknown ids are left out
+export async function getCollections(ids: string[]): Promise<Collection[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(collections).where(inArray(collections.id, ids));
+}
@@ -0,0 +1,64 @@
+import { and, eq, gt, isNull, lte, or, sql } from "drizzle-orm";
+import { db, fileRequests } from "../db/schema";
+import { newShareToken } from "./shares";
+
+export type FileRequest = typeof fileRequests.$inferSelect;
+
+export type NewFileRequest = Pick<FileRequest, "ownerId" | "label" | "publicKey" | "wrappedKey" | "sealedPrivateKey" | "maxFiles" | "maxBytes" | "expiresAt">;
+
+// Not closed and not expired, quotas are checked per upload
+function isOpen() {
+    return and(
+        isNull(fileRequests.closedAt),
+        or(isNull(fileRequests.expiresAt), gt(fileRequests.expiresAt, new Date())),
+    );
+}
+
+export async function createFileRequest(request: NewFileRequest): Promise<FileRequest> {
+    const [created] = await db.insert(fileRequests).values({ id: newShareToken(), ...request }).returning();
+    return created;
+}
+
+// Every request of a user, closed ones included, their dropped files still need the private keys
+export async function listFileRequests(ownerId: string): Promise<FileRequest[]> {
+    return db.select().from(fileRequests).where(eq(fileRequests.ownerId, ownerId));
+}
+
+// The request behind a token, null when it is unknown, closed or expired
+export async function getOpenFileRequest(token: string): Promise<FileRequest | null> {
+    const [request] = await db.select().from(fileRequests).where(and(eq(fileRequests.id, token), isOpen()));
+    return request ?? null;
+}
+
+/**
+ * Counts one file of `bytes` against a request before it is stored. A single statement,
+ * so parallel uploads can not go past the quotas.
+ * @returns Whether the request is open and the file fits.
+ */
+export async function reserveDrop(token: string, bytes: number): Promise<boolean> {
+    const reserved = await db.update(fileRequests)
+        .set({ files: sql`${fileRequests.files} + 1`, bytes: sql`${fileRequests.bytes} + ${bytes}` })
+        .where(and(
+            eq(fileRequests.id, token),
+            isOpen(),
+            or(isNull(fileRequests.maxFiles), gt(fileRequests.maxFiles, fileRequests.files)),
+            or(isNull(fileRequests.maxBytes), lte(sql`${fileRequests.bytes} + ${bytes}`, fileRequests.maxBytes)),
+        ))
+        .returning({ id: fileRequests.id });
+    return reserved.length > 0;
+}
+
+// Gives back the reservation of an upload that failed
+export async function releaseDrop(token: string, bytes: number): Promise<void> {
+    await db.update(fileRequests)
+        .set({ files: sql`${fileRequests.files} - 1`, bytes: sql`${fileRequests.bytes} - ${bytes}` })
+        .where(eq(fileRequests.id, token));
+}
+
+export async function closeFileRequest(token: string, ownerId: string): Promise<boolean> {
+    const closed = await db.update(fileRequests)
+        .set({ closedAt: new Date() })
+        .where(and(eq(fileRequests.id, token), eq(fileRequests.ownerId, ownerId), isNull(fileRequests.closedAt)))
+        .returning({ id: fileRequests.id });
+    return closed.length > 0;
+}
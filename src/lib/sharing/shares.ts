@@ -0,0 +1,78 @@
+import { randomBytes } from "crypto";
+import { and, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import { db, shares } from "../db/schema";
+import { ShareOptions } from "../types";
+
+export type Share = typeof shares.$inferSelect;
+
+// 192 bits, the token is all a recipient needs to fetch the ciphertext
+const SHARE_TOKEN_BYTES = 24;
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+// Tokens of share and file request links
+export function newShareToken(): string {
+    return randomBytes(SHARE_TOKEN_BYTES).toString("base64url");
+}
+
+export function isShareToken(token: unknown): token is string {
+    return typeof token === "string" && SHARE_TOKEN_PATTERN.test(token);
+}
+
+// Not revoked, not expired and downloads left
+function isActive() {
+    return and(
+        isNull(shares.revokedAt),
+        or(isNull(shares.expiresAt), gt(shares.expiresAt, new Date())),
+        or(isNull(shares.maxDownloads), lt(shares.downloads, shares.maxDownloads)),
+    );
+}
+
+// What a share gives access to, one upload or a collection of them
+export type ShareTarget = { uploadId: string } | { collectionId: string };
+
+export async function createShare(ownerId: string, target: ShareTarget, options: ShareOptions): Promise<Share> {
+    const [share] = await db.insert(shares).values({
+        id: newShareToken(),
+        ownerId,
+        ...target,
+        maxDownloads: options.maxDownloads ?? null,
+        expiresAt: options.expiresAt ?? null,
+    }).returning();
+    return share;
+}
+
+export async function listActiveShares(ownerId: string): Promise<Share[]> {
+    return db.select().from(shares).where(and(eq(shares.ownerId, ownerId), isActive()));
+}
+
+// The share behind a token, null when it is unknown or no longer usable
+export async function getActiveShare(token: string): Promise<Share | null> {
+    const [share] = await db.select().from(shares).where(and(eq(shares.id, token), isActive()));
+    return share ?? null;
+}
+
+/**
+ * Counts a download against a share. A single statement, so parallel downloads
+ * can not go past the limit.
+ * @returns The share, or null when it is no longer usable.
+ */
+export async function claimShareDownload(token: string): Promise<Share | null> {
+    const [share] = await db.update(shares)
+        .set({ downloads: sql`${shares.downloads} + 1` })
+        .where(and(eq(shares.id, token), isActive()))
+        .returning();
+    return share ?? null;
+}
+
+export async function revokeShare(token: string, ownerId: string): Promise<boolean> {
+    const revoked = await db.update(shares)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(shares.id, token), eq(shares.ownerId, ownerId), isNull(shares.revokedAt)))
+        .returning({ id: shares.id });
+    return revoked.length > 0;
+}
+
+// Removes the shares of a deleted upload
+export async function deleteShares(uploadId: string): Promise<void> {
+    await db.delete(shares).where(eq(shares.uploadId, uploadId));
+}
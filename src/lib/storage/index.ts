@@ -0,0 +1,42 @@
+import path from "path";
+import { nodeDefinitions, storageSigningSecret } from "../config";
+import { NodeDefinition, StorageBackend } from "../types";
+import { LocalStorageBackend, parseRange } from "./local";
+import { S3StorageBackend } from "./s3";
+import { UploadThingBackend } from "./uploadthing";
+
+export { LocalStorageBackend, parseRange, S3StorageBackend, UploadThingBackend };
+export { InsufficientCapacityError, placeChunks, rankByWeight } from "./placement";
+export { getFreeBytes, getNodeUsage } from "./usage";
+
+function createStorageBackend(node: NodeDefinition): StorageBackend {
+    const config = node.backend;
+    switch (config.type) {
+        case "uploadthing":
+            return new UploadThingBackend(config.token);
+        case "local":
+            return new LocalStorageBackend(
+                path.resolve(config.directory || `./storage/node-${node.id}`),
+                `/api/storage/${node.id}`,
+                storageSigningSecret,
+            );
+        case "s3":
+            return new S3StorageBackend(config);
+        default:
+            throw new Error(`Unknown storage backend for node ${node.id}`);
+    }
+}
+
+const storageBackends = new Map(nodeDefinitions.map(node => [node.id, createStorageBackend(node)]));
+
+/**
+ * Returns the backend of a configured node.
+ * Throws for ids that are no longer configured, their chunks are unreachable.
+ */
+export function getStorageBackend(nodeId: string): StorageBackend {
+    const backend = storageBackends.get(nodeId);
+    if (!backend) {
+        throw new Error(`Unknown storage node: ${nodeId}`);
+    }
+    return backend;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseRange } from "./local";
+
+describe("parseRange", () => {
+    const size = 100;
+
+    it("parses closed and open ended ranges", () => {
+        expect(parseRange("bytes=0-99", size)).toEqual([0, 100]);
+        expect(parseRange("bytes=10-19", size)).toEqual([10, 20]);
+        expect(parseRange("bytes=0-0", size)).toEqual([0, 1]);
+        expect(parseRange("bytes=42-", size)).toEqual([42, 100]);
+    });
+
+    it("clamps an end past the object", () => {
+        expect(parseRange("bytes=90-1000", size)).toEqual([90, 100]);
+    });
+
+    it("parses suffix ranges as the last bytes", () => {
+        expect(parseRange("bytes=-10", size)).toEqual([90, 100]);
+        expect(parseRange("bytes=-100", size)).toEqual([0, 100]);
+        expect(parseRange("bytes=-500", size)).toEqual([0, 100]);
+    });
+
+    it("refuses ranges that can not be satisfied", () => {
+        expect(parseRange("bytes=100-", size)).toBeNull();
+        expect(parseRange("bytes=150-200", size)).toBeNull();
+        expect(parseRange("bytes=20-10", size)).toBeNull();
+        expect(parseRange("bytes=-0", size)).toBeNull();
+        expect(parseRange("bytes=0-", 0)).toBeNull();
+        expect(parseRange("bytes=-10", 0)).toBeNull();
+    });
+
+    it("refuses malformed headers", () => {
+        for (const header of ["", "bytes=", "bytes=-", "bytes=a-b", "bytes=1-2-3", "bytes= 0-1", "items=0-1", "bytes=0-1,5-9", "bytes=-1.5"]) {
+            expect(parseRange(header, size), header).toBeNull();
+        }
+    });
+});
@@ -0,0 +1,138 @@
+import { mkdir, open, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { StorageBackend, StoredObject, UploadTarget } from "../types";
+
+/**
+ * Stores chunks as plain files in a directory on the server's disk.
+ * Objects are served back through the /api/storage route, which makes
+ * it possible to run the whole stack offline (dev, CI). The same route
+ * accepts direct uploads to URLs signed with `signingSecret`.
+ */
+export class LocalStorageBackend implements StorageBackend {
+    readonly kind = "local" as const;
+
+    constructor(private directory: string, private publicUrl: string, private signingSecret: string) {}
+
+    async upload(file: File): Promise<StoredObject> {
+        const key = `${randomUUID()}_${sanitizeName(file.name)}`;
+        await this.write(key, new Uint8Array(await file.arrayBuffer()));
+        return { key, name: file.name, url: await this.getUrl(key), size: file.size };
+    }
+
+    // Used by the /api/storage route to store directly uploaded objects
+    async write(key: string, bytes: Uint8Array): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.resolve(key), bytes);
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        await Promise.all(keys.map(key => rm(this.resolve(key), { force: true })));
+    }
+
+    async list(): Promise<StoredObject[]> {
+        let entries: string[];
+        try {
+            entries = await readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw error;
+        }
+        return Promise.all(entries.map(async key => {
+            const info = await stat(this.resolve(key));
+            return {
+                key,
+                name: key.slice(key.indexOf("_") + 1),
+                url: await this.getUrl(key),
+                size: info.size,
+                uploadedAt: info.mtime,
+            };
+        }));
+    }
+
+    async getUrl(key: string): Promise<string> {
+        return `${this.publicUrl}/${encodeURIComponent(key)}`;
+    }
+
+    // Also used by the /api/storage route to serve objects
+    async download(key: string): Promise<Uint8Array> {
+        return new Uint8Array(await readFile(this.resolve(key)));
+    }
+
+    // Bytes [start, end) of an object and its total size, used by the /api/storage route for Range requests
+    async readRange(key: string, start: number, end: number): Promise<{ bytes: Uint8Array; size: number }> {
+        const file = await open(this.resolve(key), "r");
+        try {
+            const { size } = await file.stat();
+            const length = Math.max(0, Math.min(end, size) - start);
+            const bytes = new Uint8Array(length);
+            const { bytesRead } = await file.read(bytes, 0, length, start);
+            return { bytes: bytes.subarray(0, bytesRead), size };
+        } finally {
+            await file.close();
+        }
+    }
+
+    // Size of an object without reading it
+    async size(key: string): Promise<number> {
+        return (await stat(this.resolve(key))).size;
+    }
+
+    async createUploadTarget(name: string, size: number, expiresIn: number): Promise<UploadTarget> {
+        const key = `${randomUUID()}_${sanitizeName(name)}`;
+        const expires = Date.now() + expiresIn * 1000;
+        const query = new URLSearchParams({
+            size: String(size),
+            expires: String(expires),
+            signature: this.sign(key, size, expires),
+        });
+        return {
+            key,
+            url: `${await this.getUrl(key)}?${query}`,
+            method: "PUT",
+            headers: { "Content-Type": "application/octet-stream" },
+        };
+    }
+
+    // Checks a signed upload URL from createUploadTarget and that it has not expired
+    verifyUploadSignature(key: string, size: number, expires: number, signature: string): boolean {
+        if (!Number.isFinite(expires) || expires < Date.now()) return false;
+        const expected = Buffer.from(this.sign(key, size, expires));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    private sign(key: string, size: number, expires: number): string {
+        return createHmac("sha256", this.signingSecret).update(`${key}:${size}:${expires}`).digest("hex");
+    }
+
+    private resolve(key: string): string {
+        // Keys are generated by upload(); reject anything that could escape the directory
+        if (!key || key !== path.basename(key) || key.startsWith(".")) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return path.join(this.directory, key);
+    }
+}
+
+function sanitizeName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/**
+ * Parses the Range header of a request to the /api/storage route, a single
+ * `bytes=` range against an object of `size` bytes.
+ * @returns [start, end) or null when the range can not be satisfied.
+ */
+export function parseRange(header: string, size: number): [number, number] | null {
+    const match = header.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    if (!match[1]) {
+        // Suffix range, the last n bytes
+        const length = Math.min(Number(match[2]), size);
+        return length > 0 ? [size - length, size] : null;
+    }
+    const start = Number(match[1]);
+    const end = match[2] ? Math.min(Number(match[2]) + 1, size) : size;
+    return start < size && start < end ? [start, end] : null;
+}
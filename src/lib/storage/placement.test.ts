@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { NodeDefinition } from "../types";
+import { InsufficientCapacityError, planPlacement } from "./placement";
+
+function node(id: string, quota?: number, weight = 1): NodeDefinition {
+    return { id, label: id, weight, enabled: true, quota, backend: { type: "local" } };
+}
+
+function freeOf(nodes: NodeDefinition[], used: Record<string, number> = {}): Map<string, number> {
+    return new Map(nodes.map(n => [n.id, n.quota === undefined ? Infinity : n.quota - (used[n.id] ?? 0)]));
+}
+
+// Placement is random, repeat to cover more than one draw
+const RUNS = 50;
+
+describe("planPlacement", () => {
+    it("keeps every node within its quota and copies of a chunk on distinct nodes", () => {
+        const nodes = [node("a", 1000), node("b", 1000), node("c", 600), node("d")];
+        const free = freeOf(nodes, { a: 400 });
+        for (let run = 0; run < RUNS; run++) {
+            const sizes = [300, 300, 200];
+            const placement = planPlacement(nodes, free, sizes, 2);
+            const placed = new Map<string, number>();
+            placement.forEach((copies, chunk) => {
+                expect(copies).toHaveLength(2);
+                expect(new Set(copies.map(n => n.id)).size).toBe(2);
+                copies.forEach(n => placed.set(n.id, (placed.get(n.id) ?? 0) + sizes[chunk]));
+            });
+            expect(new Set(placement.map(copies => copies[0].id)).size).toBe(sizes.length);
+            placed.forEach((bytes, id) => expect(bytes).toBeLessThanOrEqual(free.get(id)!));
+        }
+    });
+
+    it("leaves the free bytes it was given untouched", () => {
+        const nodes = [node("a", 1000), node("b", 1000)];
+        const free = freeOf(nodes);
+        planPlacement(nodes, free, [500], 2);
+        expect([...free.values()]).toEqual([1000, 1000]);
+    });
+
+    it("refuses a chunk no node has room for", () => {
+        const nodes = [node("a", 100), node("b", 100)];
+        expect(() => planPlacement(nodes, freeOf(nodes, { a: 50 }), [80], 1, [["b"]])).toThrow(InsufficientCapacityError);
+        expect(() => planPlacement(nodes, freeOf(nodes), [101], 1)).toThrow(InsufficientCapacityError);
+    });
+
+    it("refuses further copies once the quotas are used up by earlier ones", () => {
+        const nodes = [node("a", 100), node("b", 100)];
+        // Each primary fits, but the second copy of either chunk would exceed the other node's quota
+        expect(() => planPlacement(nodes, freeOf(nodes), [60, 60], 2)).toThrow(InsufficientCapacityError);
+        expect(planPlacement(nodes, freeOf(nodes), [50, 50], 2).flat()).toHaveLength(4);
+    });
+
+    it("never places a chunk on an excluded node", () => {
+        const nodes = [node("a"), node("b"), node("c")];
+        for (let run = 0; run < RUNS; run++) {
+            const [[copy]] = planPlacement(nodes, freeOf(nodes), [10], 1, [["a", "b"]]);
+            expect(copy.id).toBe("c");
+        }
+    });
+
+    it("needs a node per chunk and per copy", () => {
+        const nodes = [node("a"), node("b")];
+        expect(() => planPlacement(nodes, freeOf(nodes), [1, 1, 1], 1)).toThrow(/Need 3 writable nodes/);
+        expect(() => planPlacement(nodes, freeOf(nodes), [1], 3)).toThrow(/Need 3 writable nodes per chunk/);
+    });
+});
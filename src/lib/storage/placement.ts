@@ -0,0 +1,102 @@
+import { getWritableNodes } from "../config";
+import { NodeDefinition } from "../types";
+import { getFreeBytes, UsageReader } from "./usage";
+
+/**
+ * Thrown by placeChunks when the writable nodes do not have room for every
+ * chunk copy. Nothing has been stored at that point.
+ */
+export class InsufficientCapacityError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InsufficientCapacityError";
+    }
+}
+
+/**
+ * Shuffles nodes so that each one comes first with probability proportional
+ * to its weight (Efraimidis-Spirakis: order by random^(1/weight)).
+ */
+export function rankByWeight(
+    nodes: NodeDefinition[],
+    weightOf: (node: NodeDefinition) => number = node => node.weight,
+): NodeDefinition[] {
+    return nodes
+        .map(node => ({ node, score: Math.pow(Math.random(), 1 / weightOf(node)) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ node }) => node);
+}
+
+/**
+ * Places chunks of the given sizes with `copies` copies each, within the node quotas.
+ * Primary copies go to distinct nodes, each further copy to a node that does not hold
+ * that chunk yet, preferring the least used nodes. Nodes are drawn by weight scaled by
+ * their share of free quota, so nearly full nodes receive fewer chunks.
+ * @param exclude - Per chunk, nodes that already hold a copy of it elsewhere and must not get another.
+ * @param reader - Where free space is read, a transaction that reserves the placed bytes before it commits.
+ * @returns For every chunk, the nodes of its copies, primary first.
+ * @throws InsufficientCapacityError when some copy fits on no eligible node.
+ */
+export async function placeChunks(
+    sizes: number[],
+    copies: number,
+    exclude: string[][] = [],
+    reader?: UsageReader,
+): Promise<NodeDefinition[][]> {
+    const candidates = getWritableNodes();
+    return planPlacement(candidates, await getFreeBytes(candidates, reader), sizes, copies, exclude);
+}
+
+/**
+ * The placement of placeChunks over the given candidates, with `freeBytes` per node id
+ * as getFreeBytes returns them. Reads no storage and leaves `freeBytes` untouched.
+ * @throws InsufficientCapacityError when some copy fits on no eligible node.
+ */
+export function planPlacement(
+    candidates: NodeDefinition[],
+    freeBytes: Map<string, number>,
+    sizes: number[],
+    copies: number,
+    exclude: string[][] = [],
+): NodeDefinition[][] {
+    if (sizes.length > candidates.length) {
+        throw new Error(`Need ${sizes.length} writable nodes, only ${candidates.length} configured`);
+    }
+    if (copies > candidates.length) {
+        throw new Error(`Need ${copies} writable nodes per chunk, only ${candidates.length} configured`);
+    }
+
+    const free = new Map(freeBytes);
+    const weightOf = (node: NodeDefinition) =>
+        node.quota ? node.weight * (free.get(node.id)! / node.quota) : node.weight;
+    const load = new Map(candidates.map(node => [node.id, 0]));
+    const placement: NodeDefinition[][] = sizes.map(() => []);
+
+    const place = (chunk: number, eligible: NodeDefinition[], pick: (ranked: NodeDefinition[]) => NodeDefinition) => {
+        const fitting = eligible.filter(node => free.get(node.id)! >= sizes[chunk]);
+        if (fitting.length === 0) {
+            throw new InsufficientCapacityError(
+                `No writable node has ${sizes[chunk]} bytes free for copy ${placement[chunk].length + 1} of chunk ${chunk}`);
+        }
+        const node = pick(rankByWeight(fitting, weightOf));
+        placement[chunk].push(node);
+        free.set(node.id, free.get(node.id)! - sizes[chunk]);
+        load.set(node.id, load.get(node.id)! + 1);
+    };
+
+    // Largest chunks first, so they get first pick of the roomiest nodes
+    const order = sizes.map((_, i) => i).sort((a, b) => sizes[b] - sizes[a]);
+    for (const chunk of order) {
+        const excluded = new Set(exclude[chunk] ?? []);
+        place(chunk, candidates.filter(node => load.get(node.id) === 0 && !excluded.has(node.id)), ranked => ranked[0]);
+    }
+    for (let copy = 1; copy < copies; copy++) {
+        for (const chunk of order) {
+            const held = new Set([...placement[chunk].map(node => node.id), ...(exclude[chunk] ?? [])]);
+            // Stable sort keeps the weighted order among equally loaded nodes
+            place(chunk, candidates.filter(node => !held.has(node.id)),
+                ranked => ranked.sort((a, b) => load.get(a.id)! - load.get(b.id)!)[0]);
+        }
+    }
+    return placement;
+}
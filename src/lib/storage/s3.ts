@@ -0,0 +1,113 @@
+import {
+    DeleteObjectsCommand,
+    GetObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { randomUUID } from "crypto";
+import { S3BackendOptions, StorageBackend, StoredObject, UploadTarget } from "../types";
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...).
+ * The bucket has to allow anonymous reads, since clients fetch chunks directly,
+ * and CORS PUT requests from the app's origin for direct uploads.
+ */
+export class S3StorageBackend implements StorageBackend {
+    readonly kind = "s3" as const;
+    private client: S3Client;
+
+    constructor(private options: S3BackendOptions) {
+        this.client = new S3Client({
+            endpoint: options.endpoint || undefined,
+            region: options.region,
+            forcePathStyle: !!options.endpoint,
+            // A checksum in a presigned URL would be computed over an empty body
+            requestChecksumCalculation: "WHEN_REQUIRED",
+            credentials: {
+                accessKeyId: options.accessKeyId,
+                secretAccessKey: options.secretAccessKey,
+            },
+        });
+    }
+
+    async upload(file: File): Promise<StoredObject> {
+        const key = objectKey(file.name);
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+            Body: new Uint8Array(await file.arrayBuffer()),
+            ContentType: "application/octet-stream",
+        }));
+        return { key, name: file.name, url: await this.getUrl(key), size: file.size };
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        if (keys.length === 0) return;
+        const response = await this.client.send(new DeleteObjectsCommand({
+            Bucket: this.options.bucket,
+            Delete: { Objects: keys.map(Key => ({ Key })) },
+        }));
+        if (response.Errors && response.Errors.length > 0) {
+            throw new Error(`Failed to delete ${response.Errors.length} object(s): ${response.Errors[0].Message}`);
+        }
+    }
+
+    async list(): Promise<StoredObject[]> {
+        const objects: StoredObject[] = [];
+        let token: string | undefined;
+        do {
+            const response = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.options.bucket,
+                ContinuationToken: token,
+            }));
+            for (const obj of response.Contents ?? []) {
+                if (!obj.Key) continue;
+                objects.push({
+                    key: obj.Key,
+                    name: obj.Key.slice(obj.Key.indexOf("_") + 1),
+                    url: await this.getUrl(obj.Key),
+                    size: obj.Size ?? 0,
+                    uploadedAt: obj.LastModified,
+                });
+            }
+            token = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (token);
+        return objects;
+    }
+
+    async getUrl(key: string): Promise<string> {
+        const base = this.options.publicUrl
+            || (this.options.endpoint
+                ? `${this.options.endpoint.replace(/\/$/, "")}/${this.options.bucket}`
+                : `https://${this.options.bucket}.s3.${this.options.region}.amazonaws.com`);
+        return `${base.replace(/\/$/, "")}/${encodeURIComponent(key)}`;
+    }
+
+    async download(key: string): Promise<Uint8Array> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+        }));
+        if (!response.Body) {
+            throw new Error(`Failed to download ${key}: empty body`);
+        }
+        return response.Body.transformToByteArray();
+    }
+
+    async createUploadTarget(name: string, size: number, expiresIn: number): Promise<UploadTarget> {
+        const key = objectKey(name);
+        const url = await getSignedUrl(this.client, new PutObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+            ContentLength: size,
+            ContentType: "application/octet-stream",
+        }), { expiresIn });
+        return { key, url, method: "PUT", headers: { "Content-Type": "application/octet-stream" } };
+    }
+}
+
+function objectKey(name: string): string {
+    return `${randomUUID()}_${name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+}
@@ -0,0 +1,70 @@
+import { randomBytes } from "crypto";
+import { and, eq, gt, lte, sql } from "drizzle-orm";
+import { db, uploadSessions } from "../db/schema";
+import { DirectUploadRequest } from "../types";
+
+// How long an interrupted upload can be resumed, its chunks are spared by the orphan collector until then
+const UPLOAD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type UploadSession = typeof uploadSessions.$inferSelect;
+
+/**
+ * Records the chunks a direct upload is expected to store, along with a fresh
+ * wrapping key for the key material the client keeps to resume it.
+ */
+export async function createUploadSession(transactionId: string, request: DirectUploadRequest, ownerId: string): Promise<UploadSession> {
+    const [session] = await db.insert(uploadSessions).values({
+        id: transactionId,
+        uploadId: request.uploadId,
+        ownerId,
+        meta: request.meta,
+        chunkSizes: request.chunkSizes,
+        chunkHashes: request.chunkHashes,
+        fileHash: request.fileHash,
+        parityCount: request.parityCount,
+        replication: request.replication,
+        storedChunks: [],
+        wrappingKey: randomBytes(32).toString("base64"),
+        expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+    }).returning();
+    return session;
+}
+
+// The session of a direct upload, null when it is unknown, finished or expired
+export async function getUploadSession(transactionId: string): Promise<UploadSession | null> {
+    const [session] = await db.select().from(uploadSessions).where(and(
+        eq(uploadSessions.id, transactionId),
+        gt(uploadSessions.expiresAt, new Date()),
+    ));
+    return session ?? null;
+}
+
+// Sessions that can still be resumed, of one user or of everyone
+export async function listUploadSessions(ownerId?: string): Promise<UploadSession[]> {
+    return db.select().from(uploadSessions).where(and(
+        gt(uploadSessions.expiresAt, new Date()),
+        ownerId ? eq(uploadSessions.ownerId, ownerId) : undefined,
+    ));
+}
+
+/**
+ * Adds a chunk to the stored chunks of a session. A single statement, so chunks
+ * confirmed in parallel do not overwrite each other.
+ */
+export async function markChunkStored(transactionId: string, chunk: number): Promise<void> {
+    await db.update(uploadSessions)
+        .set({ storedChunks: sql`json_insert(${uploadSessions.storedChunks}, '$[#]', ${chunk})` })
+        .where(and(
+            eq(uploadSessions.id, transactionId),
+            sql`not exists (select 1 from json_each(${uploadSessions.storedChunks}) where value = ${chunk})`,
+        ));
+}
+
+export async function deleteUploadSession(transactionId: string): Promise<void> {
+    await db.delete(uploadSessions).where(eq(uploadSessions.id, transactionId));
+}
+
+// Drops sessions past their expiry, their pending chunks become ordinary orphans
+export async function deleteExpiredUploadSessions(): Promise<void> {
+    await db.delete(uploadSessions).where(lte(uploadSessions.expiresAt, new Date()));
+}
@@ -0,0 +1,230 @@
+import { randomUUID } from "crypto";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db, pendingParts } from "../db/schema";
+import { StoredObject, UploadTarget } from "../types";
+import { getStorageBackend } from "./index";
+import { placeChunks } from "./placement";
+
+export type PlacedObject = StoredObject & { node: string };
+export type PlacedTarget = UploadTarget & { node: string };
+export type PendingCopy = { node: string; key: string; size: number };
+type Reservation = { node: string; id: number };
+
+// Delete attempts per chunk during rollback, with exponential backoff between them
+const ROLLBACK_ATTEMPTS = 3;
+const ROLLBACK_BACKOFF_MS = 500;
+
+// Lifetime of presigned upload targets, the orphan collector spares pending parts this long
+const DIRECT_UPLOAD_TTL_SECONDS = 60 * 60;
+
+// Reservations of this process run one after another, SQLite refuses a second
+// write transaction while one is open instead of waiting for it
+let reserving: Promise<unknown> = Promise.resolve();
+
+/**
+ * Thrown by uploadChunks once a failed upload has been rolled back.
+ * `orphaned` holds the chunks that could not be deleted.
+ */
+export class UploadTransactionError extends Error {
+    constructor(message: string, public failedChunks: number[], public orphaned: PlacedObject[]) {
+        super(message);
+        this.name = "UploadTransactionError";
+    }
+}
+
+/**
+ * Places the chunk copies and records each one in pending_parts under a placeholder key,
+ * within one write transaction. The bytes then count against the node quotas before
+ * anything is stored, so concurrent uploads can not be placed into the same free space.
+ * @returns For every chunk, the nodes of its copies with the id of the row reserving each.
+ */
+async function reserveChunks(
+    sizes: number[],
+    transactionId: string,
+    copies: number,
+    exclude: string[][] = [],
+    positions?: number[],
+): Promise<Reservation[][]> {
+    const reservation = reserving.then(() => db.transaction(async (tx) => {
+        const placement = await placeChunks(sizes, copies, exclude, tx);
+        const reserved: Reservation[][] = [];
+        for (const [i, nodes] of placement.entries()) {
+            reserved.push([]);
+            for (const { id: node } of nodes) {
+                const [row] = await tx.insert(pendingParts).values({
+                    transactionId,
+                    node,
+                    key: `reserved:${randomUUID()}`,
+                    size: sizes[i],
+                    chunk: positions?.[i] ?? null,
+                }).returning({ id: pendingParts.id });
+                reserved[i].push({ node, id: row.id });
+            }
+        }
+        return reserved;
+    }));
+    reserving = reservation.catch(() => undefined);
+    return reservation;
+}
+
+/**
+ * Phase 1 of an upload: stores `copies` copies of every file on distinct nodes
+ * and records each stored object in pending_parts under `transactionId`. The copies
+ * are reserved there before they are stored, and a copy whose key can not be recorded
+ * is deleted right away. If any upload fails, the objects that did succeed are deleted
+ * again and the remaining reservations released before the error is thrown.
+ * Throws InsufficientCapacityError, before storing anything, when the chunks do not fit the node quotas.
+ * @param exclude - Per file, nodes that must not receive a copy of it, see placeChunks.
+ * @returns For every file, in input order, its stored copies (primary first).
+ */
+export async function uploadChunks(files: File[], transactionId: string, copies = 1, exclude: string[][] = []): Promise<PlacedObject[][]> {
+    const reserved = await reserveChunks(files.map(file => file.size), transactionId, copies, exclude);
+    const settled = await Promise.all(files.map((file, i) => Promise.allSettled(
+        reserved[i].map(async ({ node, id }) => {
+            const backend = getStorageBackend(node);
+            const result = await backend.upload(file);
+            try {
+                await db.update(pendingParts).set({ key: result.key }).where(eq(pendingParts.id, id));
+            } catch (error) {
+                // The backend picks the key, so the copy can only be recorded after it is stored.
+                // Untracked it would escape rollback and the orphan collector, take it back instead
+                await backend.delete([result.key]).catch(deleteError => {
+                    console.error(`Could not delete untracked ${result.key} on node ${node}:`, deleteError);
+                });
+                throw error;
+            }
+            return { ...result, node };
+        }),
+    )));
+
+    const failedChunks = settled.map((r, i) => (r.some(c => c.status === "rejected") ? i : -1)).filter(i => i !== -1);
+    if (failedChunks.length === 0) {
+        return settled.map(r => r.map(c => (c as PromiseFulfilledResult<PlacedObject>).value));
+    }
+
+    const firstError = (settled[failedChunks[0]].find(c => c.status === "rejected") as PromiseRejectedResult).reason;
+    console.error(`Upload ${transactionId} failed on chunk(s) ${failedChunks.join(", ")}:`, firstError);
+
+    // Copies that were never stored or recorded still hold their placeholder rows
+    const unused = reserved.flatMap((r, i) => r.filter((_, copy) => settled[i][copy].status === "rejected").map(c => c.id));
+    await db.delete(pendingParts).where(inArray(pendingParts.id, unused)).catch(error => {
+        console.error(`Could not release the reservations of upload ${transactionId}:`, error);
+    });
+
+    const stored = settled
+        .flat()
+        .filter((r): r is PromiseFulfilledResult<PlacedObject> => r.status === "fulfilled")
+        .map(r => r.value);
+    const orphaned = await rollbackChunks(transactionId, stored);
+    throw new UploadTransactionError(
+        firstError instanceof Error ? firstError.message : String(firstError),
+        failedChunks,
+        orphaned,
+    );
+}
+
+/**
+ * Phase 1 of a direct upload: places every chunk copy and issues a presigned target
+ * per copy, so the browser sends ciphertext to the nodes itself. Every copy is reserved
+ * in pending_parts as it is placed and its row takes the target key before the target
+ * is handed out, so whatever lands there is tracked.
+ * Throws InsufficientCapacityError when the chunks do not fit the node quotas.
+ * @param positions - Chunk position of every name, defaults to the input order.
+ * @returns For every chunk, in input order, the targets of its copies.
+ */
+export async function createUploadTargets(
+    names: string[],
+    sizes: number[],
+    transactionId: string,
+    copies = 1,
+    positions = names.map((_, i) => i),
+): Promise<PlacedTarget[][]> {
+    const reserved = await reserveChunks(sizes, transactionId, copies, [], positions);
+    const settled = await Promise.all(reserved.map((nodes, i) => Promise.allSettled(
+        nodes.map(async ({ node, id }) => {
+            const target = await getStorageBackend(node).createUploadTarget(names[i], sizes[i], DIRECT_UPLOAD_TTL_SECONDS);
+            await db.update(pendingParts).set({ key: target.key }).where(eq(pendingParts.id, id));
+            return { ...target, node };
+        }),
+    )));
+
+    const failed = settled.flat().find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) {
+        // Nothing has been uploaded to the targets yet, forgetting them and the reservations is enough
+        await db.delete(pendingParts).where(and(
+            eq(pendingParts.transactionId, transactionId),
+            inArray(pendingParts.chunk, positions),
+        ));
+        throw failed.reason;
+    }
+    return settled.map(r => r.map(c => (c as PromiseFulfilledResult<PlacedTarget>).value));
+}
+
+/**
+ * Replaces the copies of some chunks of a direct upload with fresh targets, placed
+ * anew so a node that timed out need not be used again. Whatever the old targets
+ * received is deleted; copies that can not be deleted are detached from their
+ * chunk and left to the orphan collector.
+ * @returns For every chunk in `positions`, the targets of its copies.
+ */
+export async function reissueUploadTargets(
+    transactionId: string,
+    positions: number[],
+    names: string[],
+    sizes: number[],
+    copies = 1,
+): Promise<PlacedTarget[][]> {
+    const stale = (await loadUploadTargets(transactionId)).flatMap((c, chunk) => (positions.includes(chunk) ? c : []));
+    const orphaned = await rollbackChunks(transactionId, stale);
+    if (orphaned.length > 0) {
+        await db.update(pendingParts).set({ chunk: null }).where(and(
+            eq(pendingParts.transactionId, transactionId),
+            inArray(pendingParts.key, orphaned.map(o => o.key)),
+        ));
+    }
+    return createUploadTargets(names, sizes, transactionId, copies, positions);
+}
+
+/**
+ * The copies issued by createUploadTargets, grouped by chunk in chunk order.
+ * Empty when the transaction is unknown, already committed or rolled back.
+ */
+export async function loadUploadTargets(transactionId: string): Promise<PendingCopy[][]> {
+    const rows = await db.select().from(pendingParts)
+        .where(eq(pendingParts.transactionId, transactionId))
+        .orderBy(asc(pendingParts.id));
+    const chunks: PendingCopy[][] = [];
+    for (const row of rows) {
+        if (row.chunk === null) continue;
+        (chunks[row.chunk] ??= []).push({ node: row.node, key: row.key, size: row.size ?? 0 });
+    }
+    // A gap means the pending rows were tampered with or partly collected
+    return Array.from(chunks, copies => copies ?? []);
+}
+
+/**
+ * Deletes chunks of an upload that will not be committed, retrying each delete.
+ * Deleted chunks are removed from pending_parts, the rest stay there for the orphan GC.
+ * @returns The chunks that could not be deleted.
+ */
+export async function rollbackChunks<T extends { node: string; key: string }>(transactionId: string, objects: T[]): Promise<T[]> {
+    const results = await Promise.all(objects.map(async object => {
+        for (let attempt = 0; attempt < ROLLBACK_ATTEMPTS; attempt++) {
+            try {
+                await getStorageBackend(object.node).delete([object.key]);
+                await db.delete(pendingParts).where(and(
+                    eq(pendingParts.transactionId, transactionId),
+                    eq(pendingParts.key, object.key),
+                ));
+                return null;
+            } catch (error) {
+                console.warn(`Rollback of ${object.key} on node ${object.node} failed (attempt ${attempt + 1}):`, error);
+                if (attempt < ROLLBACK_ATTEMPTS - 1) {
+                    await new Promise(resolve => setTimeout(resolve, ROLLBACK_BACKOFF_MS * 2 ** attempt));
+                }
+            }
+        }
+        return object;
+    }));
+    return results.filter((o): o is Awaited<T> => o !== null);
+}
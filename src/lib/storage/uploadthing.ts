@@ -0,0 +1,119 @@
+import { generateKey, generateSignedURL } from "@uploadthing/shared";
+import * as Micro from "effect/Micro";
+import * as Redacted from "effect/Redacted";
+import { UTApi } from "uploadthing/server";
+import { version as uploadThingVersion } from "uploadthing/package.json";
+import { StorageBackend, StoredObject, UploadTarget } from "../types";
+
+// Number of files requested per listFiles page
+const LIST_PAGE_SIZE = 500;
+
+export class UploadThingBackend implements StorageBackend {
+    readonly kind = "uploadthing" as const;
+    private api: UTApi;
+    private token: ParsedToken | undefined;
+    private appId: string | undefined;
+
+    constructor(token: string | undefined) {
+        this.api = new UTApi({ token });
+        this.token = parseToken(token);
+        this.appId = this.token?.appId;
+    }
+
+    async upload(file: File): Promise<StoredObject> {
+        const response = await this.api.uploadFiles(file);
+        if (!response?.data?.key) {
+            throw new Error(`Failed to upload ${file.name}: ${response?.error?.message ?? "missing key"}`);
+        }
+        return {
+            key: response.data.key,
+            name: response.data.name,
+            url: response.data.ufsUrl,
+            size: response.data.size,
+        };
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        if (keys.length === 0) return;
+        const response = await this.api.deleteFiles(keys, { keyType: "fileKey" });
+        if (!response?.success) {
+            throw new Error("Failed to delete files");
+        }
+    }
+
+    async list(): Promise<StoredObject[]> {
+        const objects: StoredObject[] = [];
+        let offset = 0;
+        let hasMore = true;
+        while (hasMore) {
+            const response = await this.api.listFiles({ limit: LIST_PAGE_SIZE, offset });
+            for (const file of response.files) {
+                if (file.status === "Deletion Pending") continue;
+                objects.push({
+                    key: file.key,
+                    name: file.name,
+                    size: file.size,
+                    url: await this.getUrl(file.key),
+                    uploadedAt: new Date(file.uploadedAt),
+                });
+            }
+            offset += response.files.length;
+            hasMore = response.hasMore && response.files.length > 0;
+        }
+        return objects;
+    }
+
+    async getUrl(key: string): Promise<string> {
+        if (!this.appId) {
+            throw new Error("UploadThing token is missing or invalid");
+        }
+        return `https://${this.appId}.ufs.sh/f/${key}`;
+    }
+
+    async download(key: string): Promise<Uint8Array> {
+        const response = await fetch(await this.getUrl(key));
+        if (!response.ok) {
+            throw new Error(`Failed to download ${key}: HTTP ${response.status}`);
+        }
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    // Same presigned ingest URL UTApi.uploadFiles uses, but handed to the browser
+    async createUploadTarget(name: string, size: number, expiresIn: number): Promise<UploadTarget> {
+        if (!this.token?.apiKey || !this.token.appId || !this.token.regions?.length) {
+            throw new Error("UploadThing token is missing or invalid");
+        }
+        const { apiKey, appId, regions, ingestHost = "ingest.uploadthing.com" } = this.token;
+        const type = "application/octet-stream";
+        const key = await Micro.runPromise(generateKey({ name, size, type, lastModified: Date.now() }, appId));
+        const url = await Micro.runPromise(generateSignedURL(`https://${regions[0]}.${ingestHost}/${key}`, Redacted.make(apiKey), {
+            ttlInSeconds: expiresIn,
+            data: {
+                "x-ut-identifier": appId,
+                "x-ut-file-name": name,
+                "x-ut-file-size": size,
+                "x-ut-file-type": type,
+                "x-ut-content-disposition": "inline",
+            },
+        }));
+        return {
+            key,
+            url,
+            method: "PUT",
+            headers: { "Range": "bytes=0-", "x-uploadthing-version": uploadThingVersion },
+            formField: "file",
+        };
+    }
+}
+
+type ParsedToken = { apiKey?: string; appId?: string; regions?: string[]; ingestHost?: string };
+
+// UPLOADTHING_TOKEN is base64({ apiKey, appId, regions, ingestHost? })
+function parseToken(token: string | undefined): ParsedToken | undefined {
+    if (!token) return undefined;
+    try {
+        return JSON.parse(Buffer.from(token, "base64").toString("utf8")) as ParsedToken;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,86 @@
+import { count, eq, sql } from "drizzle-orm";
+import { nodeDefinitions } from "../config";
+import { db, pendingParts, uploads } from "../db/schema";
+import { NodeDefinition, NodeUsage } from "../types";
+
+// 12 byte IV + 16 byte GCM tag added to every encrypted chunk
+const CHUNK_OVERHEAD = 28;
+
+type Stored = Map<string, { bytes: number; chunks: number }>;
+
+// The database, or a transaction on it whose uncommitted rows must be counted
+export type UsageReader = Pick<typeof db, "all" | "select">;
+
+/**
+ * Bytes and chunk copies per node id, summed in the database over every copy referenced
+ * by an upload (of `ownerId` only, when given) and, for all uploads, every pending part.
+ * Parts stored before sizes were recorded are estimated from the file size, and parts
+ * without a node id sit on node "<position>", as in partLocations. Orphans the collector
+ * has not removed yet are not counted.
+ */
+async function storedByNode(ownerId?: string, reader: UsageReader = db): Promise<Stored> {
+    const rows = await reader.all<{ node: string; bytes: number; chunks: number }>(sql`
+        with files as (
+            select ${uploads.originalSize} as size, ${uploads.uploadParts} as parts,
+                max(1, (select count(*) from json_each(${uploads.uploadParts})
+                    where coalesce(json_extract(value, '$.role'), 'data') = 'data')) as data_parts
+            from ${uploads}
+            where ${ownerId ? eq(uploads.ownerId, ownerId) : sql`1`}
+        ), parts as (
+            select p.key as position, p.value as part, (f.size + f.data_parts - 1) / f.data_parts + ${CHUNK_OVERHEAD} as estimate
+            from files f, json_each(f.parts) p
+        ), copies as (
+            select coalesce(json_extract(part, '$.node'), cast(position as text)) as node, part, estimate from parts
+            union all
+            select json_extract(r.value, '$.node'), part, estimate from parts, json_each(part, '$.replicas') r
+        )
+        select node, sum(coalesce(json_extract(part, '$.size'), estimate)) as bytes, count(*) as chunks
+        from copies group by node
+    `);
+
+    const stored: Stored = new Map(rows.map(row => [row.node, { bytes: Number(row.bytes), chunks: Number(row.chunks) }]));
+    if (ownerId) return stored;
+
+    const pending = await reader.select({
+        node: pendingParts.node,
+        bytes: sql<number>`coalesce(sum(${pendingParts.size}), 0)`,
+        chunks: count(),
+    }).from(pendingParts).groupBy(pendingParts.node);
+    for (const row of pending) {
+        const entry = stored.get(row.node) ?? { bytes: 0, chunks: 0 };
+        stored.set(row.node, { bytes: entry.bytes + Number(row.bytes), chunks: entry.chunks + row.chunks });
+    }
+    return stored;
+}
+
+/**
+ * Free bytes per node id, Infinity for nodes without a quota.
+ */
+export async function getFreeBytes(nodes: NodeDefinition[], reader: UsageReader = db): Promise<Map<string, number>> {
+    const stored = await storedByNode(undefined, reader);
+    return new Map(nodes.map(node => [
+        node.id,
+        node.quota === undefined ? Infinity : Math.max(0, node.quota - (stored.get(node.id)?.bytes ?? 0)),
+    ]));
+}
+
+/**
+ * Usage summary of every configured node, for the UI. With `ownerId` only that user's
+ * files are counted, and quota and free space, which tell about everyone's files, are left out.
+ */
+export async function getNodeUsage(ownerId?: string): Promise<NodeUsage[]> {
+    const stored = await storedByNode(ownerId);
+    return nodeDefinitions.map(node => {
+        const { bytes, chunks } = stored.get(node.id) ?? { bytes: 0, chunks: 0 };
+        const quota = ownerId ? undefined : node.quota;
+        return {
+            node: node.id,
+            label: node.label,
+            enabled: node.enabled && node.weight > 0,
+            usedBytes: bytes,
+            quota: quota ?? null,
+            freeBytes: quota === undefined ? null : Math.max(0, quota - bytes),
+            chunks,
+        };
+    });
+}
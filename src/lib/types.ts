@@ -1,7 +1,344 @@
-export type UtServerNumber = 0 | 1 | 2 | 3 | 4;
+export type ChunkRole = "data" | "parity";
 export type UploadPart = {
     name: string;
     url: string;
     key: string;
     hash: string; // base64(SHA-256(IV||C)) for integrity verification
-}
\ No newline at end of file
+    // Absent on uploads made before erasure coding, which only have data parts in order
+    role?: ChunkRole;
+    index?: number; // Position among parts of the same role
+    size?: number; // Stored byte length, parity chunks are padded to the largest data chunk
+    node?: string; // Id of the node holding the chunk, absent on old uploads (node = position in uploadParts)
+    replicas?: ChunkLocation[]; // Extra copies of the same bytes on other nodes
+}
+
+// Where one copy of a chunk is stored
+export type ChunkLocation = {
+    node: string;
+    key: string;
+    url: string;
+}
+
+/**
+ * Outcome of scrubbing one upload:
+ * - healthy: every copy of every chunk matches its hash
+ * - repaired: damaged copies were found and all of them were rewritten
+ * - degraded: damaged copies remain, but the file can still be rebuilt
+ * - lost: too many chunks are damaged to rebuild the file
+ */
+export type FileHealth = "healthy" | "repaired" | "degraded" | "lost";
+
+// k data chunks + m parity chunks, any k of them rebuild the file
+export type ErasureConfig = {
+    dataChunks: number;
+    parityChunks: number;
+}
+
+// Layout offered to the client for new uploads
+export type UploadConfig = ErasureConfig & {
+    replicationFactor: number; // Default copies per chunk
+    maxReplicationFactor: number; // Every copy of a chunk needs its own node
+}
+
+export type UploadErrorCode =
+    | "INVALID_REQUEST" // Rejected before anything was stored
+    | "INSUFFICIENT_CAPACITY" // No placement fits the chunks into the node quotas, nothing was stored
+    | "UPLOAD_FAILED" // A node failed, every stored chunk was rolled back
+    | "VERIFICATION_FAILED" // Directly uploaded chunks did not match their hashes, stored chunks were rolled back
+    | "ROLLBACK_INCOMPLETE"; // A node failed and some chunks could not be deleted
+
+export type UploadError = {
+    code: UploadErrorCode;
+    message: string;
+    failedChunks?: number[]; // Chunk positions whose upload failed
+    orphanedChunks?: { node: string; key: string }[]; // Left on nodes, tracked in pending_parts
+}
+
+/**
+ * How the chunks of an upload are encrypted. Uploads without it store every
+ * data chunk as a single AES-GCM message, IV||C.
+ * - stream: segmented format of utils/stream.ts, `segmentSize` plaintext bytes per segment
+ * - envelope: the same segments behind a versioned header, bound to the upload id and chunk index
+ */
+export type EncryptionInfo = {
+    scheme: "stream" | "envelope";
+    segmentSize: number;
+}
+
+export type CompressionCodec = "gzip" | "deflate";
+
+// The file was compressed before encryption, decrypted chunks have to be decompressed
+export type CompressionInfo = {
+    codec: CompressionCodec;
+    size: number; // Compressed bytes, what the chunks hold once decrypted
+}
+
+// Plaintext file details sent along with an upload
+export type UploadMeta = {
+    filename: string;
+    size: number;
+    mime: string;
+    encryption?: EncryptionInfo;
+    compression?: CompressionInfo;
+    sealedDetails?: string; // The real FileDetails encrypted under the file key, the fields above are placeholders then
+}
+
+// What the list shows of a file, sealed in UploadMeta.sealedDetails when hidden from the server
+export type FileDetails = {
+    filename: string;
+    mime: string;
+    size: number;
+}
+
+// Chunk layout announced before the browser uploads chunks to the nodes itself
+export type DirectUploadRequest = {
+    uploadId: string; // Id the upload row will get, chosen by the client since the chunk envelopes are bound to it
+    meta: UploadMeta;
+    chunkSizes: number[]; // Stored byte length of every chunk, data chunks first
+    chunkHashes: string[]; // base64(SHA-256) of every chunk, checked again on finalize
+    fileHash: string;
+    parityCount: number;
+    replication: number;
+}
+
+// Presigned targets of every chunk copy, primary first
+export type DirectUploadPlan = {
+    transactionId: string;
+    targets: (UploadTarget & { node: string })[][]; // Empty for chunks that are already stored
+    wrappingKey: string; // base64 AES key the client wraps its resume state with
+}
+
+export type PrepareUploadResult =
+    | { success: true; plan: DirectUploadPlan }
+    | { success: false; error: UploadError };
+
+export type ConfirmChunkResult =
+    | { success: true }
+    | { success: false; error: UploadError };
+
+// An upload that was prepared but not finalized yet, see upload_sessions
+export type UploadSessionInfo = {
+    transactionId: string;
+    filename: string;
+    size: number;
+    chunkCount: number;
+    storedChunks: number[];
+    expiresAt: Date;
+}
+
+// What the client needs to re-derive and upload the chunks a session is missing
+export type ResumeUploadResult =
+    | {
+        success: true;
+        uploadId: string;
+        meta: UploadMeta;
+        chunkSizes: number[];
+        chunkHashes: string[];
+        parityCount: number;
+        missing: number[];
+        plan: DirectUploadPlan;
+    }
+    | { success: false; error: UploadError };
+
+export type UploadResult =
+    | { success: true; id: string }
+    | { success: false; error: UploadError };
+
+/**
+ * How the login secret x is derived from the passphrase, see utils/zkp.ts. Stored next to
+ * the public key; accounts on an older version or cost are moved on their next login.
+ * - 1: unsalted SHA-256, accounts from before salted derivation
+ * - 2: salted PBKDF2-SHA256 or Argon2id, `memory` in KiB
+ */
+export type LoginKdf =
+    | { version: 1; algorithm: "sha256" }
+    | { version: 2; algorithm: "pbkdf2-sha256"; salt: string; iterations: number }
+    | { version: 2; algorithm: "argon2id"; salt: string; iterations: number; memory: number; parallelism: number };
+
+// How the owner's vault key is derived from the login passphrase, see utils/vault.ts
+export type KeyVaultParams = {
+    kdf: "pbkdf2-sha256";
+    salt: string; // base64
+    iterations: number;
+}
+
+// Admins invite users and run maintenance over every node, members only see their own files
+export type UserRole = "admin" | "member";
+
+// The account behind a session
+export type SessionUser = {
+    id: string;
+    username: string;
+    role: UserRole;
+}
+
+// An account as admins see it, `registered` is false while the invite is unused
+export type UserInfo = SessionUser & {
+    registered: boolean;
+    inviteExpiresAt: Date | null;
+    createdAt: Date | null;
+}
+
+// A file key wrapped with AES-KW under the vault key, base64
+export type WrappedFileKey = {
+    id: string;
+    wrappedKey: string;
+}
+
+// An upload as the browser needs it to download, from GetFile or a share link
+export type FileRecord = {
+    originalFileName: string;
+    mimeType: string;
+    originalSize: number;
+    fileHash: string;
+    uploadParts: UploadPart[];
+    encryption: EncryptionInfo | null;
+    compression: CompressionInfo | null;
+    sealedDetails: string | null;
+}
+
+// Limits of a new share link, both optional
+export type ShareOptions = {
+    expiresAt?: Date | null;
+    maxDownloads?: number | null;
+}
+
+// A share link as its owner sees it, see shares
+export type ShareInfo = {
+    token: string;
+    uploadIds: string[]; // The shared upload, or the members of a collection
+    collection: boolean;
+    createdAt: Date | null;
+    expiresAt: Date | null;
+    maxDownloads: number | null;
+    downloads: number;
+}
+
+// What a share link shows before downloading, the details only open with the key in the link
+export type SharedFileDetails = Pick<FileRecord, "originalFileName" | "mimeType" | "originalSize" | "sealedDetails">;
+
+export type SharedFileResult<T = FileRecord> =
+    | { success: true; uploadId: string; file: T }
+    | { success: false; error: string };
+
+// Encrypted under the collection key, lists the uploads of a collection and their file keys
+export type CollectionManifest = {
+    version: 1;
+    files: { uploadId: string; key: string }[]; // base64 raw file keys
+}
+
+// What a collection link opens: the sealed manifest and the details of the members that still exist
+export type SharedCollectionResult =
+    | { success: true; collectionId: string; manifest: string; files: (SharedFileDetails & { uploadId: string })[] }
+    | { success: false; error: string };
+
+// A file request link as its owner sees it, with the sealed private key its drops need, see utils/drop.ts
+export type FileRequestInfo = {
+    token: string;
+    label: string;
+    publicKey: string;
+    wrappedKey: string;
+    sealedPrivateKey: string;
+    maxFiles: number | null;
+    maxBytes: number | null;
+    files: number;
+    bytes: number;
+    createdAt: Date | null;
+    expiresAt: Date | null;
+    open: boolean; // Neither closed nor expired
+}
+
+// A new file request: what uploaders see, its quotas and the keys from utils/drop.ts
+export type FileRequestOptions = {
+    label: string;
+    publicKey: string;
+    wrappedKey: string;
+    sealedPrivateKey: string;
+    maxFiles?: number | null;
+    maxBytes?: number | null;
+    expiresAt?: Date | null;
+}
+
+// What an uploader sees of a request link, and the chunk layout to encrypt for
+export type FileRequestResult =
+    | {
+        success: true;
+        label: string;
+        expiresAt: Date | null;
+        remainingFiles: number | null; // Null for no limit
+        remainingBytes: number | null;
+        maxFileBytes: number; // Encrypted chunks of one file, parity included
+        dataChunks: number;
+        parityChunks: number;
+    }
+    | { success: false; error: string };
+
+export type StorageBackendKind = "uploadthing" | "local" | "s3";
+
+export type S3BackendOptions = {
+    endpoint?: string; // e.g. http://localhost:9000 for MinIO, empty for AWS
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    publicUrl?: string; // Base URL objects are readable from, defaults to <endpoint>/<bucket>
+}
+
+export type StorageBackendConfig =
+    | { type: "uploadthing"; token?: string }
+    | { type: "local"; directory?: string }
+    | ({ type: "s3" } & S3BackendOptions);
+
+// A storage node as configured in NODES_CONFIG_FILE or the environment
+export type NodeDefinition = {
+    id: string;
+    label: string;
+    weight: number; // Relative share of new chunks, 0 never receives any
+    enabled: boolean; // Disabled nodes keep serving existing chunks but get no new ones
+    quota?: number; // Bytes the node may hold, unlimited when absent
+    backend: StorageBackendConfig;
+}
+
+// Bytes stored on a node, as recorded by committed uploads and pending parts
+export type NodeUsage = {
+    node: string;
+    label: string;
+    enabled: boolean;
+    usedBytes: number;
+    quota: number | null; // null when unlimited
+    freeBytes: number | null;
+    chunks: number;
+}
+
+// An object as reported by a storage backend, independent of the provider
+export type StoredObject = {
+    key: string;
+    name: string;
+    url: string;
+    size: number;
+    uploadedAt?: Date; // When the provider reports it, used to spare objects of in-flight uploads
+}
+
+// Where the browser sends one chunk copy itself, without passing through the app server
+export type UploadTarget = {
+    key: string;
+    url: string;
+    method: "PUT" | "POST";
+    headers: Record<string, string>;
+    formField?: string; // Send the bytes as multipart form data under this field, as the raw body otherwise
+}
+
+/**
+ * Minimal set of operations every storage node has to support.
+ * Upload logic only talks to this interface, so providers can be mixed per node.
+ */
+export interface StorageBackend {
+    readonly kind: StorageBackendKind;
+    upload(file: File): Promise<StoredObject>;
+    delete(keys: string[]): Promise<void>;
+    list(): Promise<StoredObject[]>;
+    getUrl(key: string): Promise<string>;
+    download(key: string): Promise<Uint8Array>; // Server-side read, used by maintenance jobs
+    // Presigned target for an object of exactly `size` bytes, valid for `expiresIn` seconds
+    createUploadTarget(name: string, size: number, expiresIn: number): Promise<UploadTarget>;
+}
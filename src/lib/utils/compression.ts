@@ -0,0 +1,79 @@
+import { CompressionCodec } from "../types";
+import { PlaintextSink } from "./download";
+
+// Already compressed containers and media, compressing them again only costs time
+const INCOMPRESSIBLE_TYPES = [
+    /^image\/(?!svg\+xml|bmp|x-ms-bmp|tiff)/,
+    /^video\//,
+    /^audio\/(?!wav|x-wav)/,
+    /^application\/(zip|gzip|x-gzip|x-7z-compressed|x-rar-compressed|vnd\.rar|x-bzip2|x-xz|zstd|x-zstd|pdf|epub\+zip|java-archive)$/,
+    /^application\/vnd\.openxmlformats-officedocument\./,
+    /^application\/vnd\.oasis\.opendocument\./,
+];
+
+const COMPRESSIBLE_TYPES = [
+    /^text\//,
+    /^application\/(json|ld\+json|x-ndjson|xml|javascript|x-javascript|sql|x-sql|x-yaml|yaml|toml|x-sh|wasm|csv|x-tar)$/,
+    /\+(json|xml)$/,
+    /^image\/(svg\+xml|bmp|x-ms-bmp|tiff)$/,
+    /^audio\/(wav|x-wav)$/,
+];
+
+// Browsers often report no type for these
+const COMPRESSIBLE_EXTENSIONS = /\.(log|txt|csv|tsv|json|ndjson|jsonl|xml|yaml|yml|toml|md|sql|ini|conf|cfg|tar)$/i;
+
+/**
+ * Whether compressing before encryption is worth it by default. Known compressed
+ * types are skipped; untyped files only when the extension looks like text.
+ */
+export function isCompressible(mime: string, name: string): boolean {
+    if (INCOMPRESSIBLE_TYPES.some(type => type.test(mime))) return false;
+    if (COMPRESSIBLE_TYPES.some(type => type.test(mime))) return true;
+    return COMPRESSIBLE_EXTENSIONS.test(name);
+}
+
+// Compresses a file as a stream, the result is a Blob the browser may keep on disk
+export async function compressFile(file: Blob, codec: CompressionCodec): Promise<Blob> {
+    return new Response(file.stream().pipeThrough(new CompressionStream(codec))).blob();
+}
+
+/**
+ * Wraps a sink so the bytes written to it are decompressed on their way through.
+ * Backpressure from the inner sink carries over, and a failing inner sink fails the writes.
+ */
+export function decompressingSink(sink: PlaintextSink, codec: CompressionCodec): PlaintextSink {
+    const stream = new DecompressionStream(codec);
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+    const pumped = (async () => {
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) return;
+                await sink.write(value);
+            }
+        } catch (error) {
+            await reader.cancel(error).catch(() => {});
+            throw error;
+        }
+    })();
+    // Reported by close(), or by the write that runs into the cancelled stream
+    pumped.catch(() => {});
+
+    return {
+        kind: sink.kind,
+        async write(bytes) {
+            await writer.ready;
+            await writer.write(new Uint8Array(bytes));
+        },
+        async close() {
+            await writer.close();
+            await pumped;
+            await sink.close();
+        },
+        async abort(reason) {
+            await writer.abort(reason).catch(() => {});
+            await sink.abort(reason);
+        },
+    };
+}
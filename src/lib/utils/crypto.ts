@@ -15,16 +15,23 @@ export function randomIv(bytes: number = 12): Uint8Array {
     return iv;
 }
 
-export async function aesGcmEncrypt(key: CryptoKey, iv: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> {
-    const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+// `additionalData` is authenticated but not encrypted, decryption fails unless the same bytes are passed
+export async function aesGcmEncrypt(key: CryptoKey, iv: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+    const ct = await crypto.subtle.encrypt(gcmParams(iv, additionalData), key, plaintext);
     return new Uint8Array(ct);
 }
 
-export async function aesGcmDecrypt(key: CryptoKey, iv: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array> {
-    const pt = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext);
+export async function aesGcmDecrypt(key: CryptoKey, iv: Uint8Array, ciphertext: Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+    const pt = await crypto.subtle.decrypt(gcmParams(iv, additionalData), key, ciphertext);
     return new Uint8Array(pt);
 }
 
+function gcmParams(iv: Uint8Array, additionalData?: Uint8Array): AesGcmParams {
+    const params: AesGcmParams = { name: "AES-GCM", iv: new Uint8Array(iv) };
+    if (additionalData) params.additionalData = new Uint8Array(additionalData);
+    return params;
+}
+
 export async function sha256(data: Uint8Array): Promise<Uint8Array> {
     const digest = await crypto.subtle.digest("SHA-256", data);
     return new Uint8Array(digest);
@@ -49,7 +56,7 @@ export function toBase64(bytes: Uint8Array): string {
     return btoa(String.fromCharCode(...bytes));
 }
 
-export function fromBase64(b64: string): Uint8Array {
+export function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
     if (typeof window === "undefined") {
         return new Uint8Array(Buffer.from(b64, "base64"));
     }
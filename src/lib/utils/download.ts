@@ -0,0 +1,293 @@
+import { EncryptionInfo, FileRecord, UploadPart } from "../types";
+import { decompressingSink } from "./compression";
+import { aesGcmDecrypt, sha256, toBase64 } from "./crypto";
+import { partsByRole, reconstructData } from "./erasure";
+import { readFileDetails } from "./metadata";
+import { partLocations } from "./parts";
+import { StreamDecryptor } from "./stream";
+
+/**
+ * Where decrypted bytes go. Writes resolve once the sink can take more,
+ * so a slow disk slows the download down instead of filling memory.
+ */
+export type PlaintextSink = {
+    kind: "file-system" | "service-worker" | "memory";
+    write(bytes: Uint8Array): Promise<void>;
+    close(): Promise<void>;
+    abort(reason: unknown): Promise<void>;
+}
+
+// Not in lib.dom yet
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+
+declare global {
+    interface Window {
+        showSaveFilePicker?: SaveFilePicker;
+    }
+}
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Writes through the File System Access API, the user picks the target file.
+ * Needs a recent user gesture, so open it before any slow awaits.
+ * @returns null when the API is missing or not allowed right now.
+ */
+async function openFileSystemSink(name: string): Promise<PlaintextSink | null> {
+    const picker = window.showSaveFilePicker;
+    if (!picker) return null;
+    let handle: FileSystemFileHandle;
+    try {
+        handle = await picker({ suggestedName: name });
+    } catch (error) {
+        // The user closing the dialog cancels the download, anything else falls back
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+        return null;
+    }
+    const writable = await handle.createWritable();
+    return {
+        kind: "file-system",
+        write: (bytes) => writable.write(new Uint8Array(bytes)),
+        close: () => writable.close(),
+        abort: (reason) => writable.abort(reason),
+    };
+}
+
+/**
+ * Registers the service worker in public/sw.js and waits until it is active.
+ * @returns null when service workers are unavailable.
+ */
+export async function getServiceWorker(): Promise<ServiceWorker | null> {
+    if (!("serviceWorker" in navigator)) return null;
+    try {
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        return (await navigator.serviceWorker.ready).active;
+    } catch (error) {
+        console.warn("Service worker unavailable:", error);
+        return null;
+    }
+}
+
+/**
+ * Hands a ReadableStream to the service worker in public/sw.js, which answers a
+ * navigation to /__download/<id> with it as an attachment. Bytes travel over a
+ * MessageChannel, one message per pull of the stream.
+ * @returns null when service workers are unavailable.
+ */
+async function openServiceWorkerSink(name: string, mime: string, size: number): Promise<PlaintextSink | null> {
+    const worker = await getServiceWorker();
+    if (!worker) return null;
+
+    const id = crypto.randomUUID();
+    const channel = new MessageChannel();
+    let credits = 0;
+    let waiting: (() => void) | null = null;
+    let cancelled = false;
+    const ready = new Promise<void>((resolve) => {
+        channel.port1.onmessage = ({ data }) => {
+            if (data.type === "ready") resolve();
+            if (data.type === "pull") credits++;
+            if (data.type === "cancel") cancelled = true;
+            waiting?.();
+            waiting = null;
+        };
+    });
+    worker.postMessage({ type: "download", id, name, mime, size }, [channel.port2]);
+    await ready;
+
+    const frame = document.createElement("iframe");
+    frame.hidden = true;
+    frame.src = `/__download/${id}`;
+    document.body.appendChild(frame);
+    const cleanup = () => setTimeout(() => frame.remove(), 1000);
+
+    return {
+        kind: "service-worker",
+        async write(bytes) {
+            while (credits === 0 && !cancelled) {
+                await new Promise<void>((resolve) => { waiting = resolve; });
+            }
+            if (cancelled) throw new Error("Download cancelled");
+            credits--;
+            const copy = bytes.slice();
+            channel.port1.postMessage({ chunk: copy.buffer }, [copy.buffer]);
+        },
+        async close() {
+            channel.port1.postMessage({ done: true });
+            cleanup();
+        },
+        async abort(reason) {
+            channel.port1.postMessage({ error: reason instanceof Error ? reason.message : String(reason) });
+            cleanup();
+        },
+    };
+}
+
+// Last resort: collects the plaintext in a Blob and saves it through an object URL
+function openMemorySink(name: string, mime: string): PlaintextSink {
+    const parts: BlobPart[] = [];
+    return {
+        kind: "memory",
+        async write(bytes) {
+            parts.push(new Uint8Array(bytes));
+        },
+        async close() {
+            const url = URL.createObjectURL(new File(parts, name, { type: mime }));
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = name;
+            document.body.appendChild(a);
+            a.click();
+            setTimeout(() => {
+                document.body.removeChild(a);
+                URL.revokeObjectURL(url);
+            }, 100);
+        },
+        async abort() {
+            parts.length = 0;
+        },
+    };
+}
+
+/**
+ * Opens the best available place to stream a download to: a file picked through
+ * the File System Access API, a service worker streamed response, or memory.
+ */
+export async function openDownloadSink(name: string, mime: string, size: number, { allowPicker = true } = {}): Promise<PlaintextSink> {
+    return (allowPicker ? await openFileSystemSink(name) : null)
+        ?? await openServiceWorkerSink(name, mime, size)
+        ?? openMemorySink(name, mime);
+}
+
+// Downloads one complete copy of a part and checks its hash, trying every copy in turn
+async function fetchVerified(part: UploadPart, position: number): Promise<Uint8Array> {
+    let lastError: unknown = null;
+    for (const location of partLocations(part, position)) {
+        try {
+            const res = await fetch(location.url);
+            if (!res.ok) throw new Error(`Failed to fetch chunk ${position}`);
+            const buf = new Uint8Array(await res.arrayBuffer());
+            if (toBase64(await sha256(buf)) !== part.hash) throw new Error(`Hash mismatch on chunk ${position}`);
+            return buf;
+        } catch (error) {
+            console.warn(`Chunk ${position} copy on node ${location.node} unavailable:`, error);
+            lastError = error;
+        }
+    }
+    throw lastError;
+}
+
+// Feeds the bytes of a copy from `skip` on to `onBytes`, as they arrive
+async function readCopy(url: string, skip: number, onBytes: (bytes: Uint8Array) => Promise<void>): Promise<void> {
+    const res = await fetch(url);
+    if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+    const reader = res.body.getReader();
+    let position = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        const start = Math.max(0, skip - position);
+        position += value.byteLength;
+        if (start < value.byteLength) await onBytes(value.subarray(start));
+    }
+}
+
+/**
+ * Downloads, verifies and decrypts a file into `sink`, data chunk by data chunk.
+ * Segmented chunks are decrypted while they stream in; when a copy fails halfway
+ * the next copy resumes at the last authenticated segment. Only when every copy of
+ * a chunk fails are all chunks fetched whole to rebuild it from parity.
+ * Chunks from before segmented encryption are fetched whole, one at a time.
+ * @param uploadId - Id of the upload, envelope chunks only decrypt under it.
+ * @param onProgress - Called with the plaintext bytes written so far.
+ */
+export async function downloadToSink(
+    uploadId: string,
+    uploadParts: UploadPart[],
+    encryption: EncryptionInfo | null,
+    key: CryptoKey,
+    sink: PlaintextSink,
+    onProgress?: (written: number) => void,
+): Promise<void> {
+    const { data, parity } = partsByRole(uploadParts);
+    const shards = [...data, ...parity];
+    let written = 0;
+    const emit = async (segments: Iterable<Uint8Array> | AsyncIterable<Uint8Array>) => {
+        for await (const segment of segments) {
+            await sink.write(segment);
+            written += segment.byteLength;
+            onProgress?.(written);
+        }
+    };
+
+    let rebuilt: Uint8Array[] | null = null;
+    const rebuild = async (cause: unknown): Promise<Uint8Array[]> => {
+        if (parity.length === 0) throw cause;
+        rebuilt ??= reconstructData(
+            await Promise.all(shards.map((p, i) => fetchVerified(p, i).catch(() => null))),
+            data.length,
+            data.map(p => p.size ?? 0),
+        );
+        return rebuilt;
+    };
+
+    for (let i = 0; i < data.length; i++) {
+        if (!encryption) {
+            // IV||C, one AES-GCM message per chunk
+            const chunk = await fetchVerified(data[i], i).catch(error => rebuild(error).then(r => r[i]));
+            await emit([await aesGcmDecrypt(key, chunk.subarray(0, 12), chunk.subarray(12))]);
+            continue;
+        }
+
+        const decryptor = new StreamDecryptor(key, encryption, { uploadId, chunk: i, total: data.length });
+        let lastError: unknown = null;
+        let complete = false;
+        for (const location of partLocations(data[i], i)) {
+            try {
+                await readCopy(location.url, decryptor.consumed, bytes => emit(decryptor.push(bytes)));
+                await emit(decryptor.finish());
+                complete = true;
+                break;
+            } catch (error) {
+                console.warn(`Chunk ${i} copy on node ${location.node} failed at byte ${decryptor.consumed}:`, error);
+                decryptor.reset();
+                lastError = error;
+            }
+        }
+        if (!complete) {
+            const chunk = (await rebuild(lastError))[i];
+            await emit(decryptor.push(chunk.subarray(decryptor.consumed)));
+            await emit(decryptor.finish());
+        }
+        if (toBase64(decryptor.hasher.digest()) !== data[i].hash) {
+            throw new Error(`Chunk ${i} does not match its hash`);
+        }
+    }
+}
+
+/**
+ * Saves a file to disk: opens its details with the key, then downloads it into `sink`,
+ * decompressing on the way when it was compressed before encryption. Without a sink one
+ * is opened here; callers open it themselves when the save dialog needs the user's click.
+ * The sink is aborted when the download fails.
+ * @param onProgress - Called with the bytes written so far and the total, both before decompression.
+ */
+export async function saveFile(
+    uploadId: string,
+    file: FileRecord,
+    key: CryptoKey,
+    sink: PlaintextSink | null,
+    onProgress?: (written: number, total: number) => void,
+): Promise<void> {
+    try {
+        const details = await readFileDetails(uploadId, file, key);
+        sink ??= await openDownloadSink(details.filename, details.mime, details.size);
+        const total = file.compression?.size ?? details.size;
+        const target = file.compression ? decompressingSink(sink, file.compression.codec) : sink;
+        await downloadToSink(uploadId, file.uploadParts, file.encryption, key, target, written => onProgress?.(written, total));
+        await target.close();
+    } catch (error) {
+        await sink?.abort(error).catch(() => {});
+        throw error;
+    }
+}
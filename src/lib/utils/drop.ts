@@ -0,0 +1,102 @@
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, generateAesGcmKey, randomIv, toBase64 } from "./crypto";
+import { unwrapFileKey, wrapFileKey } from "./vault";
+
+/**
+ * File drops: outsiders upload files that only the owner can open. Every request link has its
+ * own ECDH P-256 key pair. The public key travels in the link fragment. The private key is kept
+ * on the server sealed with AES-GCM under a request key, and the request key is wrapped under
+ * the owner's vault key like a file key. An uploader agrees a key with the public key from a
+ * fresh ephemeral key pair, runs it through HKDF-SHA256 bound to the upload id, and wraps the
+ * file key with AES-KW under the result:
+ *   dropKey = base64(ephemeral public key (65 bytes) || wrapped file key (40 bytes))
+ */
+
+const CURVE = { name: "ECDH", namedCurve: "P-256" } as const;
+const PUBLIC_KEY_BYTES = 65; // Uncompressed point
+const WRAPPED_KEY_BYTES = 40; // AES-KW output for a 256-bit key
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const PRIVATE_KEY_DATA = new TextEncoder().encode("fanacrypt-drop-request");
+
+export type DropKeys = {
+    publicKey: string; // base64 raw public key, goes in the link
+    wrappedKey: string; // Request key wrapped under the vault key
+    sealedPrivateKey: string; // base64(IV||C) of the PKCS#8 private key under the request key
+}
+
+// A key pair for a new request link, the private half sealed so only the vault opens it
+export async function createDropKeys(vaultKey: CryptoKey): Promise<DropKeys> {
+    const pair = await crypto.subtle.generateKey(CURVE, true, ["deriveBits"]);
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey));
+    const privateKey = new Uint8Array(await crypto.subtle.exportKey("pkcs8", pair.privateKey));
+
+    const requestKey = await generateAesGcmKey();
+    const iv = randomIv();
+    const sealed = await aesGcmEncrypt(requestKey.key, iv, privateKey, PRIVATE_KEY_DATA);
+    const blob = new Uint8Array(iv.byteLength + sealed.byteLength);
+    blob.set(iv, 0);
+    blob.set(sealed, iv.byteLength);
+    return {
+        publicKey: toBase64(publicKey),
+        wrappedKey: await wrapFileKey(vaultKey, requestKey.rawKey),
+        sealedPrivateKey: toBase64(blob),
+    };
+}
+
+// The private key of a request link, throws when its request key is not in this vault
+export async function openDropPrivateKey(vaultKey: CryptoKey, keys: Omit<DropKeys, "publicKey">): Promise<CryptoKey> {
+    const requestKey = await unwrapFileKey(vaultKey, keys.wrappedKey);
+    const blob = fromBase64(keys.sealedPrivateKey);
+    const privateKey = await aesGcmDecrypt(requestKey, blob.subarray(0, 12), blob.subarray(12), PRIVATE_KEY_DATA);
+    return crypto.subtle.importKey("pkcs8", privateKey, CURVE, false, ["deriveBits"]);
+}
+
+// AES-KW key from the ECDH secret of one key pair's private half and the other's public half
+async function agreeWrappingKey(privateKey: CryptoKey, publicKey: Uint8Array, ephemeralKey: Uint8Array, uploadId: string): Promise<CryptoKey> {
+    const peer = await crypto.subtle.importKey("raw", new Uint8Array(publicKey), CURVE, false, []);
+    const secret = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, privateKey, 256);
+    const material = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+        {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(ephemeralKey),
+            info: new TextEncoder().encode(`fanacrypt-drop:${uploadId}`),
+        },
+        material,
+        { name: "AES-KW", length: 256 },
+        false,
+        ["wrapKey", "unwrapKey"],
+    );
+}
+
+// Wraps a file key to a request's public key, done by the uploader
+export async function wrapKeyForDrop(publicKey: string, uploadId: string, rawKey: Uint8Array): Promise<string> {
+    const ephemeral = await crypto.subtle.generateKey(CURVE, true, ["deriveBits"]);
+    const ephemeralKey = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey));
+    const wrappingKey = await agreeWrappingKey(ephemeral.privateKey, fromBase64(publicKey), ephemeralKey, uploadId);
+    const wrapped = fromBase64(await wrapFileKey(wrappingKey, rawKey));
+    const blob = new Uint8Array(ephemeralKey.byteLength + wrapped.byteLength);
+    blob.set(ephemeralKey, 0);
+    blob.set(wrapped, ephemeralKey.byteLength);
+    return toBase64(blob);
+}
+
+// The raw file key of a dropped upload, throws unless the request's private key opens it
+export async function unwrapDroppedKey(privateKey: CryptoKey, uploadId: string, dropKey: string): Promise<Uint8Array> {
+    const blob = fromBase64(dropKey);
+    const ephemeralKey = blob.subarray(0, PUBLIC_KEY_BYTES);
+    const wrappingKey = await agreeWrappingKey(privateKey, ephemeralKey, ephemeralKey, uploadId);
+    const key = await unwrapFileKey(wrappingKey, toBase64(blob.subarray(PUBLIC_KEY_BYTES)), true);
+    return new Uint8Array(await crypto.subtle.exportKey("raw", key));
+}
+
+// Whether values have the shape of a request's public key and of a drop key, used by the server before storing them
+export function isDropPublicKey(publicKey: unknown): publicKey is string {
+    if (typeof publicKey !== "string" || !BASE64_PATTERN.test(publicKey)) return false;
+    const bytes = fromBase64(publicKey);
+    return bytes.byteLength === PUBLIC_KEY_BYTES && bytes[0] === 0x04;
+}
+
+export function isDropKey(dropKey: unknown): dropKey is string {
+    return typeof dropKey === "string" && BASE64_PATTERN.test(dropKey) && fromBase64(dropKey).byteLength === PUBLIC_KEY_BYTES + WRAPPED_KEY_BYTES;
+}
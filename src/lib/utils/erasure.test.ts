@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { encodeParity, reconstructData } from "./erasure";
+
+// Every way of picking `count` of the positions 0..total-1
+function combinations(total: number, count: number): number[][] {
+    if (count === 0) return [[]];
+    const result: number[][] = [];
+    for (let first = 0; first <= total - count; first++) {
+        for (const rest of combinations(total - first - 1, count - 1)) {
+            result.push([first, ...rest.map(i => i + first + 1)]);
+        }
+    }
+    return result;
+}
+
+describe("erasure coding", () => {
+    const dataSizes = [512, 512, 512, 300];
+    const data = dataSizes.map(size => crypto.getRandomValues(new Uint8Array(size)));
+    const parity = encodeParity(data, 3);
+    const shards = [...data, ...parity];
+
+    it("pads parity shards to the longest data shard", () => {
+        expect(parity).toHaveLength(3);
+        parity.forEach(shard => expect(shard.byteLength).toBe(512));
+    });
+
+    for (let lost = 1; lost <= parity.length; lost++) {
+        it(`rebuilds the data with any ${lost} of ${shards.length} shards lost`, () => {
+            for (const missing of combinations(shards.length, lost)) {
+                const damaged = shards.map((shard, i) => (missing.includes(i) ? null : shard));
+                expect(reconstructData(damaged, data.length, dataSizes), `lost ${missing.join(", ")}`).toEqual(data);
+            }
+        });
+    }
+
+    it("refuses to rebuild with more shards lost than there is parity", () => {
+        const damaged = shards.map((shard, i) => (i < 4 && i !== 2 ? null : shard));
+        damaged[5] = null;
+        expect(() => reconstructData(damaged, data.length, dataSizes)).toThrow(/Not enough healthy chunks/);
+    });
+
+    it("returns the data as is when no data shard is missing", () => {
+        const result = reconstructData([...data, null, null, null], data.length, dataSizes);
+        expect(result).toEqual(data);
+    });
+});
@@ -0,0 +1,142 @@
+import { UploadPart } from "../types";
+
+// --- GF(2^8) arithmetic ---
+// Reed-Solomon over GF(256) with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1 (0x11d).
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+(() => {
+    let x = 1;
+    for (let i = 0; i < 255; i++) {
+        GF_EXP[i] = x;
+        GF_LOG[x] = i;
+        x <<= 1;
+        if (x & 0x100) x ^= 0x11d;
+    }
+    for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+})();
+
+function gfMul(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+    return GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfInv(a: number): number {
+    if (a === 0) throw new Error("Division by zero in GF(256)");
+    return GF_EXP[255 - GF_LOG[a]];
+}
+
+/**
+ * Row `j` of the parity part of the systematic generator matrix.
+ * Uses a Cauchy matrix (1 / (x_j + y_i) with x_j = k + j, y_i = i), so any
+ * k rows of [I; C] form an invertible matrix.
+ */
+function parityRow(j: number, dataCount: number): number[] {
+    return Array.from({ length: dataCount }, (_, i) => gfInv((dataCount + j) ^ i));
+}
+
+function generatorRow(shardIndex: number, dataCount: number): number[] {
+    if (shardIndex < dataCount) {
+        return Array.from({ length: dataCount }, (_, i) => (i === shardIndex ? 1 : 0));
+    }
+    return parityRow(shardIndex - dataCount, dataCount);
+}
+
+function invertMatrix(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+    for (let col = 0; col < n; col++) {
+        const pivot = a.findIndex((row, r) => r >= col && row[col] !== 0);
+        if (pivot === -1) throw new Error("Erasure matrix is singular");
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        const scale = gfInv(a[col][col]);
+        a[col] = a[col].map(v => gfMul(v, scale));
+        for (let r = 0; r < n; r++) {
+            if (r === col || a[r][col] === 0) continue;
+            const factor = a[r][col];
+            a[r] = a[r].map((v, c) => v ^ gfMul(factor, a[col][c]));
+        }
+    }
+    return a.map(row => row.slice(n));
+}
+
+// out ^= coefficient * shard
+function mulAccumulate(out: Uint8Array, shard: Uint8Array, coefficient: number) {
+    if (coefficient === 0) return;
+    const logC = GF_LOG[coefficient];
+    for (let b = 0; b < shard.byteLength; b++) {
+        const v = shard[b];
+        if (v !== 0) out[b] ^= GF_EXP[logC + GF_LOG[v]];
+    }
+}
+
+function padTo(shard: Uint8Array, size: number): Uint8Array {
+    if (shard.byteLength === size) return shard;
+    const out = new Uint8Array(size);
+    out.set(shard.subarray(0, size));
+    return out;
+}
+
+// --- Public API ---
+
+/**
+ * Computes `parityCount` parity shards over the given data shards.
+ * Shorter data shards are zero-padded to the longest one, so every parity
+ * shard has the length of the longest data shard.
+ */
+export function encodeParity(dataShards: Uint8Array[], parityCount: number): Uint8Array[] {
+    const dataCount = dataShards.length;
+    if (dataCount === 0) throw new Error("At least one data shard is required");
+    if (dataCount + parityCount > 255) throw new Error("Too many shards for GF(256)");
+
+    const shardSize = Math.max(...dataShards.map(s => s.byteLength));
+    const padded = dataShards.map(s => padTo(s, shardSize));
+    return Array.from({ length: parityCount }, (_, j) => {
+        const out = new Uint8Array(shardSize);
+        parityRow(j, dataCount).forEach((c, i) => mulAccumulate(out, padded[i], c));
+        return out;
+    });
+}
+
+/**
+ * Rebuilds all data shards from any `dataCount` available shards.
+ * @param shards - Data shards followed by parity shards, `null` where missing or corrupt.
+ * @param dataCount - Number of data shards (k).
+ * @param dataSizes - Original byte length of each data shard, used to strip padding.
+ * @returns The k data shards in order.
+ */
+export function reconstructData(shards: (Uint8Array | null)[], dataCount: number, dataSizes: number[]): Uint8Array[] {
+    const missing = shards.slice(0, dataCount).map((s, i) => (s ? -1 : i)).filter(i => i !== -1);
+    if (missing.length === 0) return shards.slice(0, dataCount) as Uint8Array[];
+
+    // Prefer data shards, they need no arithmetic
+    const available = shards.map((s, i) => (s ? i : -1)).filter(i => i !== -1).slice(0, dataCount);
+    if (available.length < dataCount) {
+        throw new Error(`Not enough healthy chunks: need ${dataCount}, have ${available.length}`);
+    }
+
+    const shardSize = Math.max(...available.map(i => shards[i]!.byteLength), ...dataSizes);
+    const decode = invertMatrix(available.map(i => generatorRow(i, dataCount)));
+    const inputs = available.map(i => padTo(shards[i]!, shardSize));
+
+    const result = shards.slice(0, dataCount) as (Uint8Array | null)[];
+    for (const i of missing) {
+        const out = new Uint8Array(shardSize);
+        decode[i].forEach((c, r) => mulAccumulate(out, inputs[r], c));
+        result[i] = out.subarray(0, dataSizes[i]);
+    }
+    return result as Uint8Array[];
+}
+
+/**
+ * Splits upload parts into data and parity parts, ordered by index.
+ * Legacy parts without a role are data parts in array order.
+ */
+export function partsByRole(parts: UploadPart[]): { data: UploadPart[]; parity: UploadPart[] } {
+    const withIndex = parts.map((p, i) => ({ ...p, role: p.role ?? "data", index: p.index ?? i }));
+    const byIndex = (a: UploadPart, b: UploadPart) => a.index! - b.index!;
+    return {
+        data: withIndex.filter(p => p.role === "data").sort(byIndex),
+        parity: withIndex.filter(p => p.role === "parity").sort(byIndex),
+    };
+}
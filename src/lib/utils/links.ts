@@ -0,0 +1,60 @@
+import { fromBase64, randomIv, toBase64 } from "./crypto";
+import { deriveVaultKey, unwrapFileKey, wrapFileKey } from "./vault";
+
+/**
+ * File keys carried in link fragments. A plain link holds the base64 file key, so anyone who
+ * sees the link can open the file. A protected link holds the file key wrapped with AES-KW under
+ * a key derived from a share passphrase, the same derivation as the key vault with a fresh salt:
+ *   p.<iterations>.<base64 salt>.<base64 wrapped key>
+ * Whoever has the link can still try passphrases offline, so it only protects as much as the
+ * passphrase is strong.
+ */
+
+const PROTECTED_PREFIX = "p";
+const LINK_KDF_ITERATIONS = 600_000;
+// Accepted when opening, an edited link should neither be cheap to guess nor hang the page
+const MIN_LINK_KDF_ITERATIONS = 100_000;
+const MAX_LINK_KDF_ITERATIONS = 10_000_000;
+
+export function isProtectedLinkKey(fragmentKey: string): boolean {
+    return fragmentKey.startsWith(`${PROTECTED_PREFIX}.`);
+}
+
+// Wraps a raw file key under a passphrase, the result goes in the link instead of the key
+export async function protectLinkKey(rawKey: Uint8Array, passphrase: string): Promise<string> {
+    const salt = toBase64(randomIv(16));
+    const wrappingKey = await deriveVaultKey(passphrase, { kdf: "pbkdf2-sha256", salt, iterations: LINK_KDF_ITERATIONS });
+    return [PROTECTED_PREFIX, LINK_KDF_ITERATIONS, salt, await wrapFileKey(wrappingKey, rawKey)].join(".");
+}
+
+/**
+ * The raw file key of a link fragment. Protected keys need their passphrase and throw
+ * when it is missing or wrong.
+ */
+export async function openLinkKey(fragmentKey: string, passphrase?: string): Promise<Uint8Array> {
+    if (!isProtectedLinkKey(fragmentKey)) return fromBase64(fragmentKey);
+
+    const [, iterationsText, salt, wrappedKey] = fragmentKey.split(".");
+    const iterations = Number(iterationsText);
+    if (!Number.isInteger(iterations) || iterations < MIN_LINK_KDF_ITERATIONS || iterations > MAX_LINK_KDF_ITERATIONS || !salt || !wrappedKey) {
+        throw new Error("The key in this link is not valid");
+    }
+    if (!passphrase) throw new Error("This link needs its passphrase");
+    const wrappingKey = await deriveVaultKey(passphrase, { kdf: "pbkdf2-sha256", salt, iterations });
+    try {
+        const key = await unwrapFileKey(wrappingKey, wrappedKey, true);
+        return new Uint8Array(await crypto.subtle.exportKey("raw", key));
+    } catch {
+        throw new Error("Wrong passphrase");
+    }
+}
+
+// The key of a link fragment as an AES-GCM key for decryption
+export async function importLinkKey(fragmentKey: string, passphrase?: string): Promise<CryptoKey> {
+    const rawKey = await openLinkKey(fragmentKey, passphrase);
+    try {
+        return await crypto.subtle.importKey("raw", new Uint8Array(rawKey), { name: "AES-GCM" }, false, ["decrypt"]);
+    } catch {
+        throw new Error("The key in this link is not valid");
+    }
+}
@@ -0,0 +1,26 @@
+import { CollectionManifest } from "../types";
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, randomIv, toBase64 } from "./crypto";
+
+// Binds a manifest to its collection, so it can not be served under another link
+function manifestData(collectionId: string): Uint8Array {
+    return new TextEncoder().encode(`fanacrypt-collection:${collectionId}`);
+}
+
+// Seals a collection manifest under the collection key as base64(IV||C)
+export async function sealManifest(key: CryptoKey, collectionId: string, manifest: CollectionManifest): Promise<string> {
+    const iv = randomIv();
+    const sealed = await aesGcmEncrypt(key, iv, new TextEncoder().encode(JSON.stringify(manifest)), manifestData(collectionId));
+    const blob = new Uint8Array(iv.byteLength + sealed.byteLength);
+    blob.set(iv, 0);
+    blob.set(sealed, iv.byteLength);
+    return toBase64(blob);
+}
+
+// Throws when the key is not the collection's or the manifest was tampered with
+export async function openManifest(key: CryptoKey, collectionId: string, sealed: string): Promise<CollectionManifest> {
+    const blob = fromBase64(sealed);
+    const plaintext = await aesGcmDecrypt(key, blob.subarray(0, 12), blob.subarray(12), manifestData(collectionId));
+    const manifest = JSON.parse(new TextDecoder().decode(plaintext)) as CollectionManifest;
+    if (manifest.version !== 1) throw new Error(`Unsupported collection manifest version ${manifest.version}`);
+    return manifest;
+}
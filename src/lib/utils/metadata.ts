@@ -0,0 +1,47 @@
+import { FileDetails, UploadMeta } from "../types";
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, randomIv, toBase64 } from "./crypto";
+
+// Stored in place of the details of a file whose details are sealed
+const SEALED_MIME = "application/octet-stream";
+
+// Binds sealed details to their upload, so they can not be moved to another file
+function sealedDetailsData(uploadId: string): Uint8Array {
+    return new TextEncoder().encode(`fanacrypt-details:${uploadId}`);
+}
+
+/**
+ * The plaintext fields of an upload with its name, type and size sealed under the file key
+ * as base64(IV||C). The server gets placeholders instead: the upload id as file name, which
+ * also names the chunks on the nodes, a generic type and size 0. The ciphertext length still
+ * tells roughly how large the file is.
+ */
+export async function sealUploadDetails(
+    key: CryptoKey,
+    uploadId: string,
+    details: FileDetails,
+): Promise<Pick<UploadMeta, "filename" | "mime" | "size" | "sealedDetails">> {
+    const iv = randomIv();
+    const plaintext = new TextEncoder().encode(JSON.stringify(details));
+    const sealed = await aesGcmEncrypt(key, iv, plaintext, sealedDetailsData(uploadId));
+    const blob = new Uint8Array(iv.byteLength + sealed.byteLength);
+    blob.set(iv, 0);
+    blob.set(sealed, iv.byteLength);
+    return { filename: uploadId, mime: SEALED_MIME, size: 0, sealedDetails: toBase64(blob) };
+}
+
+/**
+ * Name, type and size of an upload, opened with its file key when they are sealed.
+ * Throws when the key is not the file's or the details were tampered with.
+ */
+export async function readFileDetails(
+    uploadId: string,
+    row: { originalFileName: string; mimeType: string; originalSize: number; sealedDetails: string | null },
+    key: CryptoKey,
+): Promise<FileDetails> {
+    if (!row.sealedDetails) {
+        return { filename: row.originalFileName, mime: row.mimeType, size: row.originalSize };
+    }
+    const blob = fromBase64(row.sealedDetails);
+    const plaintext = await aesGcmDecrypt(key, blob.subarray(0, 12), blob.subarray(12), sealedDetailsData(uploadId));
+    return JSON.parse(new TextDecoder().decode(plaintext)) as FileDetails;
+}
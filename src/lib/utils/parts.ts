@@ -0,0 +1,19 @@
+import { ChunkLocation, UploadPart } from "../types";
+
+/**
+ * Id of the node holding a part. Uploads made before node ids existed
+ * placed part `i` of `uploadParts` on node "i".
+ */
+export function partNodeId(part: UploadPart, position: number): string {
+    return part.node ?? String(position);
+}
+
+/**
+ * Every stored copy of a part, the primary copy first.
+ */
+export function partLocations(part: UploadPart, position: number): ChunkLocation[] {
+    return [
+        { node: partNodeId(part, position), key: part.key, url: part.url },
+        ...(part.replicas ?? []),
+    ];
+}
@@ -0,0 +1,92 @@
+// A node with unfinished copies that made no progress for this long is reported as stalling
+const STALL_AFTER_MS = 10_000;
+// Throughput is averaged over this window, long enough to smooth out bursty progress events
+const THROUGHPUT_WINDOW_MS = 5_000;
+
+export type NodeProgress = {
+    node: string;
+    sent: number;
+    total: number;
+    bytesPerSecond: number;
+    stalled: boolean;
+}
+
+export type TransferSnapshot = {
+    sent: number;
+    total: number;
+    bytesPerSecond: number;
+    etaSeconds: number | null; // null until there is throughput to estimate from
+    nodes: NodeProgress[];
+}
+
+type Copy = { node: string; size: number; sent: number };
+type Sample = { at: number; sent: number };
+
+/**
+ * Byte-level progress of the chunk copies of one upload, fed by the actual transfers.
+ * Copies are grouped by node, so a slow or hanging node stands out.
+ */
+export class TransferProgress {
+    private copies = new Map<string, Copy>();
+    private samples = new Map<string, Sample[]>(); // Per node, oldest first
+    private lastProgressAt = new Map<string, number>();
+
+    constructor(private now: () => number = Date.now) {}
+
+    // Registers a copy before its transfer starts, `id` identifies it in report()
+    expect(id: string, node: string, size: number): void {
+        this.copies.set(id, { node, size, sent: 0 });
+        if (!this.lastProgressAt.has(node)) this.lastProgressAt.set(node, this.now());
+    }
+
+    report(id: string, sent: number): void {
+        const copy = this.copies.get(id);
+        if (!copy || sent <= copy.sent) return;
+        copy.sent = Math.min(sent, copy.size);
+        const at = this.now();
+        this.lastProgressAt.set(copy.node, at);
+        const samples = this.samples.get(copy.node) ?? [];
+        samples.push({ at, sent: this.sentTo(copy.node) });
+        while (samples.length > 1 && samples[0].at < at - THROUGHPUT_WINDOW_MS) samples.shift();
+        this.samples.set(copy.node, samples);
+    }
+
+    snapshot(): TransferSnapshot {
+        const now = this.now();
+        const nodes = [...new Set([...this.copies.values()].map(c => c.node))].map((node): NodeProgress => {
+            const copies = [...this.copies.values()].filter(c => c.node === node);
+            const sent = copies.reduce((n, c) => n + c.sent, 0);
+            const total = copies.reduce((n, c) => n + c.size, 0);
+            return {
+                node,
+                sent,
+                total,
+                bytesPerSecond: this.throughput(node, now),
+                stalled: sent < total && now - (this.lastProgressAt.get(node) ?? now) > STALL_AFTER_MS,
+            };
+        });
+        const sent = nodes.reduce((n, p) => n + p.sent, 0);
+        const total = nodes.reduce((n, p) => n + p.total, 0);
+        // Nodes upload in parallel, the slowest one decides when the upload is done
+        const etas = nodes.filter(p => p.sent < p.total).map(p => (p.bytesPerSecond > 0 ? (p.total - p.sent) / p.bytesPerSecond : null));
+        return {
+            sent,
+            total,
+            bytesPerSecond: nodes.reduce((n, p) => n + p.bytesPerSecond, 0),
+            etaSeconds: etas.length === 0 ? 0 : etas.some(e => e === null) ? null : Math.max(...(etas as number[])),
+            nodes,
+        };
+    }
+
+    private sentTo(node: string): number {
+        return [...this.copies.values()].filter(c => c.node === node).reduce((n, c) => n + c.sent, 0);
+    }
+
+    private throughput(node: string, now: number): number {
+        const samples = (this.samples.get(node) ?? []).filter(s => s.at >= now - THROUGHPUT_WINDOW_MS);
+        if (samples.length < 2) return 0;
+        const first = samples[0];
+        const last = samples[samples.length - 1];
+        return last.at > first.at ? ((last.sent - first.sent) * 1000) / (last.at - first.at) : 0;
+    }
+}
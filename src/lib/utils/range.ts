@@ -0,0 +1,168 @@
+import { EncryptionInfo, UploadPart } from "../types";
+import { getServiceWorker } from "./download";
+import { partsByRole, reconstructData } from "./erasure";
+import { partLocations } from "./parts";
+import { chunkHeaderBytes, ChunkKeying, openChunkHeader, openSegment, SegmentSpan, segmentsInRange } from "./stream";
+
+// Decrypted segments kept around, media elements re-request overlapping ranges while seeking
+const CACHED_SEGMENTS = 64;
+
+/**
+ * Random access to the plaintext of an upload with segmented encryption. Only the
+ * ciphertext of the segments covering a range is fetched, through HTTP Range requests
+ * on the part URLs. Chunk hashes can not be checked on part of a chunk; instead every
+ * segment is authenticated by its AES-GCM tag, which also binds its index, whether
+ * it is the last one and, for envelope chunks, the chunk's position and upload.
+ * Ranges no copy can serve are rebuilt from the same range of parity.
+ */
+export class RangeReader {
+    private data: UploadPart[];
+    private shards: UploadPart[]; // Data parts by index, then parity parts by index
+    private headers = new Map<number, Promise<ChunkKeying>>();
+    private cache = new Map<string, Uint8Array>(); // Insertion order doubles as LRU order
+
+    constructor(
+        private uploadId: string,
+        parts: UploadPart[],
+        private encryption: EncryptionInfo,
+        readonly size: number,
+        private key: CryptoKey,
+    ) {
+        const { data, parity } = partsByRole(parts);
+        this.data = data;
+        this.shards = [...data, ...parity];
+    }
+
+    // Plaintext bytes [start, end), clamped to the file
+    async read(start: number, end: number): Promise<Uint8Array> {
+        end = Math.min(end, this.size);
+        if (start >= end) return new Uint8Array(0);
+        const spans = segmentsInRange(this.size, this.data.length, this.encryption, start, end);
+        const out = new Uint8Array(end - start);
+
+        // Spans of one chunk are contiguous, fetch each chunk's share in one request
+        for (const chunk of [...new Set(spans.map(s => s.chunk))]) {
+            const inChunk = spans.filter(s => s.chunk === chunk);
+            const plaintext = await this.segments(chunk, inChunk);
+            inChunk.forEach((span, i) => {
+                const from = Math.max(start, span.plainStart);
+                const to = Math.min(end, span.plainStart + span.plainLength);
+                out.set(plaintext[i].subarray(from - span.plainStart, to - span.plainStart), from - start);
+            });
+        }
+        return out;
+    }
+
+    private async segments(chunk: number, spans: SegmentSpan[]): Promise<Uint8Array[]> {
+        const cached = spans.map(span => this.cached(`${chunk}:${span.index}`));
+        const missing = spans.filter((_, i) => !cached[i]);
+        if (missing.length === 0) return cached as Uint8Array[];
+
+        const from = missing[0].cipherStart;
+        const to = missing[missing.length - 1].cipherStart + missing[missing.length - 1].cipherLength;
+        const [keying, sealed] = await Promise.all([this.header(chunk), this.fetchRange(chunk, from, to)]);
+        for (const span of missing) {
+            const offset = span.cipherStart - from;
+            const plaintext = await openSegment(this.key, keying, span, sealed.subarray(offset, offset + span.cipherLength));
+            this.remember(`${chunk}:${span.index}`, plaintext);
+            cached[spans.indexOf(span)] = plaintext;
+        }
+        return cached as Uint8Array[];
+    }
+
+    private header(chunk: number): Promise<ChunkKeying> {
+        let header = this.headers.get(chunk);
+        if (!header) {
+            const binding = { uploadId: this.uploadId, chunk, total: this.data.length };
+            header = this.fetchRange(chunk, 0, chunkHeaderBytes(this.encryption))
+                .then(bytes => openChunkHeader(bytes, this.encryption, binding));
+            // A failed read should be retried on the next request
+            header.catch(() => this.headers.delete(chunk));
+            this.headers.set(chunk, header);
+        }
+        return header;
+    }
+
+    // Ciphertext bytes [from, to) of a shard, from the first copy that serves them
+    private async fetchRange(shard: number, from: number, to: number, rebuild = true): Promise<Uint8Array> {
+        let lastError: unknown = null;
+        for (const location of partLocations(this.shards[shard], shard)) {
+            try {
+                return await fetchCopyRange(location.url, from, to);
+            } catch (error) {
+                console.warn(`Range ${from}-${to} of chunk ${shard} unavailable on node ${location.node}:`, error);
+                lastError = error;
+            }
+        }
+        if (!rebuild || this.shards.length === this.data.length) throw lastError;
+        return this.rebuildRange(shard, from, to);
+    }
+
+    // Parity is bytewise over equal offsets, the same range of the other shards rebuilds a range
+    private async rebuildRange(shard: number, from: number, to: number): Promise<Uint8Array> {
+        const lengths = this.shards.map(p => Math.max(0, Math.min(to, p.size ?? to) - from));
+        const ranges = await Promise.all(this.shards.map((_, i) => {
+            if (i === shard) return null;
+            if (lengths[i] === 0) return new Uint8Array(0);
+            return this.fetchRange(i, from, from + lengths[i], false).catch(() => null);
+        }));
+        const data = reconstructData(ranges, this.data.length, lengths.slice(0, this.data.length));
+        return data[shard].subarray(0, lengths[shard]);
+    }
+
+    private cached(id: string): Uint8Array | null {
+        const plaintext = this.cache.get(id);
+        if (!plaintext) return null;
+        this.cache.delete(id);
+        this.cache.set(id, plaintext);
+        return plaintext;
+    }
+
+    private remember(id: string, plaintext: Uint8Array): void {
+        this.cache.set(id, plaintext);
+        if (this.cache.size > CACHED_SEGMENTS) this.cache.delete(this.cache.keys().next().value!);
+    }
+}
+
+// Reads [from, to) of one copy. Servers ignoring the Range header get their full response sliced.
+async function fetchCopyRange(url: string, from: number, to: number): Promise<Uint8Array> {
+    const res = await fetch(url, { headers: { Range: `bytes=${from}-${to - 1}` } });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const body = new Uint8Array(await res.arrayBuffer());
+    const bytes = res.status === 206 ? body : body.subarray(from, to);
+    if (bytes.byteLength !== to - from) {
+        throw new Error(`Expected ${to - from} bytes, got ${bytes.byteLength}`);
+    }
+    return bytes;
+}
+
+/**
+ * Serves a RangeReader at /__media/<id> through the service worker in public/sw.js,
+ * so a <video> or <audio> element can play and seek without downloading the file.
+ * The worker forwards each Range request to this page, which fetches, verifies
+ * and decrypts just the segments it covers.
+ * @returns The URL to play and a function that stops serving it, or null without a service worker.
+ */
+export async function serveMedia(reader: RangeReader, mime: string): Promise<{ url: string; close: () => void } | null> {
+    if (!(await getServiceWorker())) return null;
+    // Requests from this page only reach the worker once it controls the page
+    if (!navigator.serviceWorker.controller) {
+        await new Promise(resolve => navigator.serviceWorker.addEventListener("controllerchange", resolve, { once: true }));
+    }
+
+    const id = crypto.randomUUID();
+    const onMessage = async ({ data, ports }: MessageEvent) => {
+        if (data?.type !== "media-range" || data.id !== id) return;
+        try {
+            const bytes = (await reader.read(data.start, data.end)).slice();
+            ports[0].postMessage({ bytes: bytes.buffer, size: reader.size, mime }, [bytes.buffer]);
+        } catch (error) {
+            ports[0].postMessage({ error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return {
+        url: `/__media/${id}`,
+        close: () => navigator.serviceWorker.removeEventListener("message", onMessage),
+    };
+}
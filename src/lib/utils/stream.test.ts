@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { concatBytes } from "./crypto";
+import { chunkHeaderBytes, decryptStream, EncryptedFile, encryptFile } from "./stream";
+
+const SEGMENT_SIZE = 1024;
+const UPLOAD_ID = "0f6b1b8e-4c1f-4b8a-9a3e-2d7c5e1f9a10";
+
+async function decrypt(gen: AsyncGenerator<Uint8Array>): Promise<Uint8Array> {
+    const pieces: Uint8Array[] = [];
+    for await (const piece of gen) pieces.push(piece);
+    return concatBytes(pieces);
+}
+
+async function bytesOf(blob: Blob): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe("segmented encryption", () => {
+    // Spans several segments per chunk with a short last one
+    const plaintext = crypto.getRandomValues(new Uint8Array(5 * SEGMENT_SIZE + 321));
+    let key: CryptoKey;
+    let encrypted: EncryptedFile;
+    let chunks: Uint8Array[];
+
+    beforeAll(async () => {
+        key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+        encrypted = await encryptFile(new Blob([plaintext]), key, UPLOAD_ID, 2, 1, undefined, SEGMENT_SIZE);
+        chunks = await Promise.all(encrypted.chunks.map(bytesOf));
+    });
+
+    const binding = (chunk: number, uploadId = UPLOAD_ID) => ({ uploadId, chunk, total: encrypted.dataCount });
+
+    it("decrypts every data chunk back to its range of the file", async () => {
+        expect(encrypted.dataCount).toBe(2);
+        const parts = await Promise.all(chunks.slice(0, encrypted.dataCount).map((chunk, i) =>
+            decrypt(decryptStream(key, chunk, encrypted.encryption, binding(i)))));
+        expect(concatBytes(parts)).toEqual(plaintext);
+    });
+
+    it("rejects a chunk opened at another index", async () => {
+        await expect(decrypt(decryptStream(key, chunks[0], encrypted.encryption, binding(1)))).rejects.toThrow(/swapped/);
+    });
+
+    it("rejects a chunk opened for another upload", async () => {
+        const other = "7d3f0c2a-9b1e-4f6d-8c5a-1e2b3c4d5e6f";
+        await expect(decrypt(decryptStream(key, chunks[0], encrypted.encryption, binding(0, other)))).rejects.toThrow(/failed to decrypt/);
+    });
+
+    it("rejects a chunk whose envelope header was rewritten", async () => {
+        // Claims to be chunk 1 of the upload, which the segments' additional data does not match
+        const forged = chunks[0].slice();
+        forged.set(chunks[1].subarray(0, chunkHeaderBytes(encrypted.encryption)), 0);
+        await expect(decrypt(decryptStream(key, forged, encrypted.encryption, binding(1)))).rejects.toThrow(/failed to decrypt/);
+    });
+
+    it("rejects reordered segments", async () => {
+        const headerBytes = chunkHeaderBytes(encrypted.encryption);
+        const sealed = SEGMENT_SIZE + 16; // Segment plus its GCM tag
+        const swapped = chunks[0].slice();
+        swapped.set(chunks[0].subarray(headerBytes, headerBytes + sealed), headerBytes + sealed);
+        swapped.set(chunks[0].subarray(headerBytes + sealed, headerBytes + 2 * sealed), headerBytes);
+        await expect(decrypt(decryptStream(key, swapped, encrypted.encryption, binding(0)))).rejects.toThrow(/Segment 0 failed to decrypt/);
+    });
+
+    it("rejects a truncated chunk", async () => {
+        const truncated = chunks[0].subarray(0, chunks[0].byteLength - 100);
+        await expect(decrypt(decryptStream(key, truncated, encrypted.encryption, binding(0)))).rejects.toThrow(/failed to decrypt/);
+    });
+});
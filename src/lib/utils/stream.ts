@@ -0,0 +1,395 @@
+import { EncryptionInfo } from "../types";
+import { aesGcmDecrypt, aesGcmEncrypt, randomIv, toBase64 } from "./crypto";
+import { encodeParity } from "./erasure";
+import { Sha256 } from "./sha256";
+
+/**
+ * Segmented streaming encryption, after the STREAM construction.
+ *
+ * Every data chunk is stored as header || seg_0 || ... || seg_n. Segment j holds
+ * `segmentSize` bytes of plaintext (the last one may be shorter, or empty) encrypted
+ * with AES-GCM under the nonce prefix || uint32be(j) || lastFlag. The counter in the
+ * nonce makes reordered segments fail to decrypt, and since only the final segment
+ * is sealed with lastFlag = 1, a truncated chunk fails too.
+ *
+ * The "envelope" scheme's header is
+ *   magic "FNCR" | version u8 | algorithm u8 | segment size u32be | chunk index u16be | chunk total u16be | nonce prefix
+ * and every segment carries header || upload id as AES-GCM additional data, so a chunk
+ * only decrypts in the position and upload it was written for. Uploads of the older
+ * "stream" scheme have the bare 7-byte nonce prefix as header and no additional data.
+ */
+
+export const STREAM_SEGMENT_SIZE = 64 * 1024;
+const NONCE_PREFIX_BYTES = 7;
+const TAG_BYTES = 16;
+const MAX_SEGMENTS = 0x100000000;
+
+const ENVELOPE_MAGIC = new TextEncoder().encode("FNCR");
+const ENVELOPE_VERSION = 1;
+const ALGORITHM_AES_256_GCM_STREAM = 1;
+const ENVELOPE_HEADER_BYTES = ENVELOPE_MAGIC.byteLength + 1 + 1 + 4 + 2 + 2 + NONCE_PREFIX_BYTES;
+const MAX_CHUNKS = 0xffff;
+
+// Fold collected pieces into a Blob every so often, so the browser can page them out
+const PIECES_PER_BLOB = 64;
+
+function segmentNonce(prefix: Uint8Array, index: number, last: boolean): Uint8Array {
+    const nonce = new Uint8Array(12);
+    nonce.set(prefix, 0);
+    new DataView(nonce.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+    nonce[11] = last ? 1 : 0;
+    return nonce;
+}
+
+function segmentCount(plainLength: number, segmentSize: number): number {
+    return Math.max(1, Math.ceil(plainLength / segmentSize));
+}
+
+// Where a data chunk belongs, checked against its envelope header and bound into its segments
+export type ChunkBinding = {
+    uploadId: string;
+    chunk: number;
+    total: number; // Data chunks of the upload
+}
+
+export type EnvelopeHeader = {
+    version: number;
+    algorithm: number;
+    segmentSize: number;
+    chunk: number;
+    total: number;
+    prefix: Uint8Array;
+}
+
+// What a data chunk's header provides for opening its segments
+export type ChunkKeying = {
+    prefix: Uint8Array;
+    additionalData?: Uint8Array;
+}
+
+// Bytes before segment 0 of a data chunk
+export function chunkHeaderBytes(encryption: EncryptionInfo): number {
+    return encryption.scheme === "envelope" ? ENVELOPE_HEADER_BYTES : NONCE_PREFIX_BYTES;
+}
+
+function encodeEnvelopeHeader(prefix: Uint8Array, segmentSize: number, chunk: number, total: number): Uint8Array {
+    const header = new Uint8Array(ENVELOPE_HEADER_BYTES);
+    const view = new DataView(header.buffer);
+    header.set(ENVELOPE_MAGIC, 0);
+    let offset = ENVELOPE_MAGIC.byteLength;
+    view.setUint8(offset++, ENVELOPE_VERSION);
+    view.setUint8(offset++, ALGORITHM_AES_256_GCM_STREAM);
+    view.setUint32(offset, segmentSize);
+    view.setUint16(offset + 4, chunk);
+    view.setUint16(offset + 6, total);
+    header.set(prefix, offset + 8);
+    return header;
+}
+
+/**
+ * Reads the envelope header at the start of a data chunk. Needs no key, so the server
+ * can check it too. Throws on a missing magic or an unknown version or algorithm.
+ */
+export function readEnvelopeHeader(bytes: Uint8Array): EnvelopeHeader {
+    if (bytes.byteLength < ENVELOPE_HEADER_BYTES || ENVELOPE_MAGIC.some((b, i) => bytes[i] !== b)) {
+        throw new Error("Chunk has no envelope header");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, ENVELOPE_HEADER_BYTES);
+    let offset = ENVELOPE_MAGIC.byteLength;
+    const version = view.getUint8(offset++);
+    const algorithm = view.getUint8(offset++);
+    if (version !== ENVELOPE_VERSION || algorithm !== ALGORITHM_AES_256_GCM_STREAM) {
+        throw new Error(`Unsupported envelope version ${version} or algorithm ${algorithm}`);
+    }
+    return {
+        version,
+        algorithm,
+        segmentSize: view.getUint32(offset),
+        chunk: view.getUint16(offset + 4),
+        total: view.getUint16(offset + 6),
+        prefix: bytes.slice(offset + 8, ENVELOPE_HEADER_BYTES),
+    };
+}
+
+function envelopeAdditionalData(header: Uint8Array, uploadId: string): Uint8Array {
+    const id = new TextEncoder().encode(uploadId);
+    const data = new Uint8Array(header.byteLength + id.byteLength);
+    data.set(header, 0);
+    data.set(id, header.byteLength);
+    return data;
+}
+
+/**
+ * Turns the header bytes of a data chunk into what its segments are opened with.
+ * An envelope header has to match `binding`, so a chunk moved to another position
+ * is rejected before anything is decrypted; one moved to another upload fails its tags.
+ */
+export function openChunkHeader(bytes: Uint8Array, encryption: EncryptionInfo, binding: ChunkBinding): ChunkKeying {
+    if (encryption.scheme !== "envelope") {
+        return { prefix: bytes.slice(0, NONCE_PREFIX_BYTES) };
+    }
+    const header = readEnvelopeHeader(bytes);
+    if (header.chunk !== binding.chunk || header.total !== binding.total) {
+        throw new Error(`Chunk ${binding.chunk} of ${binding.total} carries the header of chunk ${header.chunk} of ${header.total}, chunks were swapped`);
+    }
+    if (header.segmentSize !== encryption.segmentSize) {
+        throw new Error(`Chunk ${binding.chunk} was written with ${header.segmentSize} byte segments, expected ${encryption.segmentSize}`);
+    }
+    return {
+        prefix: header.prefix,
+        additionalData: envelopeAdditionalData(bytes.subarray(0, ENVELOPE_HEADER_BYTES), binding.uploadId),
+    };
+}
+
+/**
+ * Decrypts one chunk as its bytes arrive, e.g. from a fetch body. A segment is
+ * only decrypted once bytes past it show it is not the last one; finish() then
+ * opens the final segment. Authenticated ciphertext is hashed along the way.
+ * Plaintext is yielded segment by segment, so whatever decrypted before a
+ * damaged segment is not lost when it throws.
+ */
+export class StreamDecryptor {
+    readonly hasher = new Sha256();
+    consumed = 0; // Ciphertext bytes authenticated so far, another copy can resume from here
+    private keying: ChunkKeying | null = null;
+    private index = 0;
+    private buffer = new Uint8Array(0);
+    private offset = 0; // Start of the unconsumed bytes in `buffer`
+
+    constructor(private key: CryptoKey, private encryption: EncryptionInfo, private binding: ChunkBinding) {}
+
+    // Drops bytes that were not authenticated yet, before resuming from another copy
+    reset(): void {
+        this.buffer = new Uint8Array(0);
+        this.offset = 0;
+    }
+
+    async *push(bytes: Uint8Array): AsyncGenerator<Uint8Array> {
+        const rest = this.buffer.subarray(this.offset);
+        const joined = new Uint8Array(rest.byteLength + bytes.byteLength);
+        joined.set(rest, 0);
+        joined.set(bytes, rest.byteLength);
+        this.buffer = joined;
+        this.offset = 0;
+
+        while (this.buffered() > this.nextSegmentBytes()) {
+            yield await this.open(this.nextSegmentBytes(), false);
+        }
+    }
+
+    // Opens the final segment, throws when the chunk was cut short
+    async *finish(): AsyncGenerator<Uint8Array> {
+        if (this.buffered() < this.headerBytes() + TAG_BYTES) {
+            throw new Error("Encrypted chunk is truncated");
+        }
+        yield await this.open(this.buffered(), true);
+    }
+
+    private buffered(): number {
+        return this.buffer.byteLength - this.offset;
+    }
+
+    // The header still to read, none once segment 0 is open
+    private headerBytes(): number {
+        return this.keying ? 0 : chunkHeaderBytes(this.encryption);
+    }
+
+    private nextSegmentBytes(): number {
+        return this.headerBytes() + this.encryption.segmentSize + TAG_BYTES;
+    }
+
+    private async open(length: number, last: boolean): Promise<Uint8Array> {
+        const bytes = this.buffer.subarray(this.offset, this.offset + length);
+        const headerBytes = this.headerBytes();
+        const keying = this.keying ?? openChunkHeader(bytes.subarray(0, headerBytes), this.encryption, this.binding);
+        const sealed = bytes.subarray(headerBytes);
+        let plaintext: Uint8Array;
+        try {
+            plaintext = await aesGcmDecrypt(this.key, segmentNonce(keying.prefix, this.index, last), sealed, keying.additionalData);
+        } catch {
+            throw new Error(`Segment ${this.index} failed to decrypt, the chunk was modified, reordered, truncated or belongs to another upload`);
+        }
+        this.keying = { prefix: keying.prefix.slice(), additionalData: keying.additionalData?.slice() };
+        this.hasher.update(bytes);
+        this.consumed += length;
+        this.index++;
+        this.offset += length;
+        return plaintext;
+    }
+}
+
+// Where one segment of a data chunk sits, in the plaintext of the file and in its chunk
+export type SegmentSpan = {
+    chunk: number; // Data chunk index
+    index: number; // Segment index within the chunk
+    last: boolean;
+    plainStart: number; // Offset in the file
+    plainLength: number;
+    cipherStart: number; // Offset in the chunk, the header sits before segment 0
+    cipherLength: number;
+}
+
+/**
+ * Maps the plaintext bytes [start, end) of a file encrypted by encryptFile to the
+ * segments holding them, in file order. Data chunks cover equal contiguous ranges of
+ * the file and every segment but the last of a chunk is full, so this is arithmetic only.
+ */
+export function segmentsInRange(size: number, dataCount: number, encryption: EncryptionInfo, start: number, end: number): SegmentSpan[] {
+    const { segmentSize } = encryption;
+    const headerBytes = chunkHeaderBytes(encryption);
+    const chunkPlainSize = Math.max(1, Math.ceil(size / dataCount));
+    const spans: SegmentSpan[] = [];
+    end = Math.min(end, size);
+    for (let chunk = Math.floor(start / chunkPlainSize); chunk < dataCount && chunk * chunkPlainSize < end; chunk++) {
+        const chunkStart = chunk * chunkPlainSize;
+        const chunkLength = Math.min(chunkPlainSize, size - chunkStart);
+        const segments = segmentCount(chunkLength, segmentSize);
+        const first = Math.floor(Math.max(0, start - chunkStart) / segmentSize);
+        const lastNeeded = Math.min(segments - 1, Math.floor((Math.min(end, chunkStart + chunkLength) - 1 - chunkStart) / segmentSize));
+        for (let index = first; index <= lastNeeded; index++) {
+            const plainLength = Math.min(segmentSize, chunkLength - index * segmentSize);
+            spans.push({
+                chunk,
+                index,
+                last: index === segments - 1,
+                plainStart: chunkStart + index * segmentSize,
+                plainLength,
+                cipherStart: headerBytes + index * (segmentSize + TAG_BYTES),
+                cipherLength: plainLength + TAG_BYTES,
+            });
+        }
+    }
+    return spans;
+}
+
+// Decrypts a single segment read on its own, e.g. through an HTTP Range request
+export async function openSegment(key: CryptoKey, keying: ChunkKeying, span: SegmentSpan, sealed: Uint8Array): Promise<Uint8Array> {
+    if (sealed.byteLength !== span.cipherLength) {
+        throw new Error(`Segment ${span.index} of chunk ${span.chunk} is truncated`);
+    }
+    try {
+        return await aesGcmDecrypt(key, segmentNonce(keying.prefix, span.index, span.last), sealed, keying.additionalData);
+    } catch {
+        throw new Error(`Segment ${span.index} of chunk ${span.chunk} failed to decrypt, the chunk was modified`);
+    }
+}
+
+/**
+ * Decrypts one complete chunk segment by segment, yielding plaintext as it goes.
+ * Throws when a segment was altered, moved or dropped, or the chunk was cut short.
+ */
+export async function* decryptStream(
+    key: CryptoKey,
+    chunk: Uint8Array,
+    encryption: EncryptionInfo,
+    binding: ChunkBinding,
+): AsyncGenerator<Uint8Array> {
+    const decryptor = new StreamDecryptor(key, encryption, binding);
+    yield* decryptor.push(chunk);
+    yield* decryptor.finish();
+}
+
+export type EncryptedFile = {
+    chunks: Blob[]; // Data chunks followed by parity chunks, empty when not re-derived
+    hashes: string[]; // base64(SHA-256) of every chunk, empty when not re-derived
+    sizes: number[];
+    dataCount: number;
+    encryption: EncryptionInfo;
+    prefixes: Uint8Array[]; // Nonce prefix of every data chunk, with the key it re-derives the same ciphertext
+}
+
+// Re-derives chunks of an earlier encryptFile call, e.g. to resume an upload
+export type RederiveOptions = {
+    prefixes: Uint8Array[];
+    chunks: number[]; // Positions to produce, the others come back empty
+}
+
+/**
+ * Splits a file into up to `dataChunks` contiguous ranges, encrypts them with the
+ * segmented envelope format bound to `uploadId` and adds `parityChunks` Reed-Solomon parity chunks. The file is
+ * read one segment per chunk at a time through Blob.slice; segments at the same
+ * index line up across chunks, so parity and hashes are computed as they arrive
+ * and the plaintext is never held in memory whole.
+ * @param onProgress - Called with the plaintext bytes encrypted (or skipped) so far.
+ * @param rederive - Reuses the nonce prefixes of an earlier run and produces only some
+ * chunks. Data ranges are skipped unless wanted themselves or needed for a wanted parity chunk.
+ */
+export async function encryptFile(
+    file: Blob,
+    key: CryptoKey,
+    uploadId: string,
+    dataChunks: number,
+    parityChunks: number,
+    onProgress?: (done: number) => void,
+    segmentSize = STREAM_SEGMENT_SIZE,
+    rederive?: RederiveOptions,
+): Promise<EncryptedFile> {
+    const chunkPlainSize = Math.max(1, Math.ceil(file.size / dataChunks));
+    const dataCount = Math.max(1, Math.ceil(file.size / chunkPlainSize));
+    const ranges = Array.from({ length: dataCount }, (_, i) => {
+        const start = i * chunkPlainSize;
+        const end = Math.min(start + chunkPlainSize, file.size);
+        return { start, end, segments: segmentCount(end - start, segmentSize) };
+    });
+    if (ranges[0].segments > MAX_SEGMENTS) {
+        throw new Error("File is too large for the segment size");
+    }
+    if (dataCount > MAX_CHUNKS) {
+        throw new Error("Too many data chunks for the envelope header");
+    }
+
+    const chunkCount = dataCount + parityChunks;
+    const prefixes = rederive?.prefixes ?? ranges.map(() => randomIv(NONCE_PREFIX_BYTES));
+    if (prefixes.length !== dataCount || prefixes.some(p => p.byteLength !== NONCE_PREFIX_BYTES)) {
+        throw new Error("Nonce prefixes do not match the chunk layout");
+    }
+    const wanted = new Set(rederive?.chunks ?? Array.from({ length: chunkCount }, (_, i) => i));
+    const withParity = Array.from({ length: parityChunks }, (_, j) => dataCount + j).some(c => wanted.has(c));
+    const encrypted = ranges.map((_, i) => withParity || wanted.has(i));
+    const headers = prefixes.map((prefix, i) => encodeEnvelopeHeader(prefix, segmentSize, i, dataCount));
+    const additionalData = headers.map(header => envelopeAdditionalData(header, uploadId));
+
+    const hashers = Array.from({ length: chunkCount }, () => new Sha256());
+    const pieces: BlobPart[][] = Array.from({ length: chunkCount }, () => []);
+    const append = (chunk: number, piece: Uint8Array) => {
+        if (!wanted.has(chunk)) return;
+        hashers[chunk].update(piece);
+        pieces[chunk].push(new Uint8Array(piece));
+        if (pieces[chunk].length >= PIECES_PER_BLOB) pieces[chunk] = [new Blob(pieces[chunk])];
+    };
+
+    let done = ranges.reduce((n, { start, end }, i) => (encrypted[i] ? n : n + end - start), 0);
+    // The first chunk is the longest, its segment count covers every chunk
+    for (let index = 0; index < ranges[0].segments; index++) {
+        const sealed = await Promise.all(ranges.map(async ({ start, end, segments }, i) => {
+            if (index >= segments || !encrypted[i]) return new Uint8Array(0);
+            const from = start + index * segmentSize;
+            const plaintext = new Uint8Array(await file.slice(from, Math.min(from + segmentSize, end)).arrayBuffer());
+            done += plaintext.byteLength;
+            const ct = await aesGcmEncrypt(key, segmentNonce(prefixes[i], index, index === segments - 1), plaintext, additionalData[i]);
+            if (index > 0) return ct;
+            const withHeader = new Uint8Array(headers[i].byteLength + ct.byteLength);
+            withHeader.set(headers[i], 0);
+            withHeader.set(ct, headers[i].byteLength);
+            return withHeader;
+        }));
+        sealed.forEach((piece, i) => {
+            if (piece.byteLength > 0) append(i, piece);
+        });
+        // Parity is bytewise over equal offsets, so parity of aligned pieces is a piece of the parity
+        if (withParity) {
+            encodeParity(sealed, parityChunks).forEach((piece, j) => append(dataCount + j, piece));
+        }
+        onProgress?.(done);
+    }
+
+    const chunks = pieces.map(p => new Blob(p));
+    return {
+        chunks,
+        hashes: hashers.map((h, i) => (wanted.has(i) ? toBase64(h.digest()) : "")),
+        sizes: chunks.map(c => c.size),
+        dataCount,
+        encryption: { scheme: "envelope", segmentSize },
+        prefixes,
+    };
+}
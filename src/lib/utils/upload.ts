@@ -0,0 +1,106 @@
+import { UploadTarget } from "../types";
+import { aesGcmDecrypt, aesGcmEncrypt, fromBase64, randomIv, toBase64 } from "./crypto";
+
+/**
+ * Sends one chunk copy straight to its storage node through a presigned target.
+ * Uses XMLHttpRequest rather than fetch, which can not report upload progress.
+ * @param onProgress - Called with the bytes of the chunk sent so far.
+ */
+export function sendToTarget(
+    target: UploadTarget & { node: string },
+    chunk: Blob,
+    name: string,
+    onProgress?: (sent: number) => void,
+): Promise<void> {
+    let body: XMLHttpRequestBodyInit = chunk;
+    if (target.formField) {
+        const form = new FormData();
+        form.append(target.formField, chunk, name);
+        body = form;
+    }
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open(target.method, target.url);
+        Object.entries(target.headers).forEach(([header, value]) => xhr.setRequestHeader(header, value));
+        // Multipart bodies are a little larger than the chunk, scale to the chunk bytes
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable && event.total > 0) onProgress?.(Math.floor((chunk.size * event.loaded) / event.total));
+        };
+        xhr.onload = () => {
+            if (xhr.status < 200 || xhr.status >= 300) {
+                reject(new Error(`Upload of ${name} to node ${target.node} failed: HTTP ${xhr.status}`));
+                return;
+            }
+            onProgress?.(chunk.size);
+            resolve();
+        };
+        xhr.onerror = () => reject(new Error(`Upload of ${name} to node ${target.node} failed: network error`));
+        xhr.onabort = () => reject(new Error(`Upload of ${name} to node ${target.node} was aborted`));
+        xhr.send(body);
+    });
+}
+
+// Local storage entries holding what is needed to resume an upload, one per transaction
+const RESUME_STATE_PREFIX = "fanacrypt_upload_";
+
+// Identifies the file an interrupted upload was made from, the user has to pick it again
+export type ResumableFile = {
+    transactionId: string;
+    filename: string;
+    size: number;
+    lastModified: number;
+}
+
+// File key and nonce prefixes of an upload, enough to re-derive any of its chunks
+export type ResumeState = ResumableFile & {
+    rawKey: Uint8Array;
+    prefixes: Uint8Array[];
+}
+
+type StoredResumeState = ResumableFile & {
+    iv: string;
+    wrapped: string; // AES-GCM over the JSON of the key material
+}
+
+async function importWrappingKey(wrappingKey: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey("raw", fromBase64(wrappingKey), { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Keeps the key material of an upload in local storage until it is finalized. It is
+ * wrapped with the key of the server-side upload session, so neither local storage
+ * nor the server alone can recover the file key, and it is useless once the session is gone.
+ */
+export async function saveResumeState(state: ResumeState, wrappingKey: string): Promise<void> {
+    const { rawKey, prefixes, ...file } = state;
+    const material = new TextEncoder().encode(JSON.stringify({ key: toBase64(rawKey), prefixes: prefixes.map(toBase64) }));
+    const iv = randomIv();
+    const wrapped = await aesGcmEncrypt(await importWrappingKey(wrappingKey), iv, material);
+    const stored: StoredResumeState = { ...file, iv: toBase64(iv), wrapped: toBase64(wrapped) };
+    localStorage.setItem(RESUME_STATE_PREFIX + state.transactionId, JSON.stringify(stored));
+}
+
+// Unwraps the key material of an upload, null when this browser did not start it
+export async function loadResumeState(transactionId: string, wrappingKey: string): Promise<ResumeState | null> {
+    const item = localStorage.getItem(RESUME_STATE_PREFIX + transactionId);
+    if (!item) return null;
+    const { iv, wrapped, ...file } = JSON.parse(item) as StoredResumeState;
+    const material = await aesGcmDecrypt(await importWrappingKey(wrappingKey), fromBase64(iv), fromBase64(wrapped));
+    const { key, prefixes } = JSON.parse(new TextDecoder().decode(material)) as { key: string; prefixes: string[] };
+    return { ...file, rawKey: fromBase64(key), prefixes: prefixes.map(fromBase64) };
+}
+
+export function listResumableFiles(): ResumableFile[] {
+    const files: ResumableFile[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const name = localStorage.key(i);
+        if (!name?.startsWith(RESUME_STATE_PREFIX)) continue;
+        const { transactionId, filename, size, lastModified } = JSON.parse(localStorage.getItem(name)!) as StoredResumeState;
+        files.push({ transactionId, filename, size, lastModified });
+    }
+    return files;
+}
+
+export function clearResumeState(transactionId: string): void {
+    localStorage.removeItem(RESUME_STATE_PREFIX + transactionId);
+}
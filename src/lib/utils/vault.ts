@@ -0,0 +1,102 @@
+import { KeyVaultParams, WrappedFileKey } from "../types";
+import { fromBase64, toBase64 } from "./crypto";
+
+/**
+ * The owner's key vault. A key-encryption key is derived in the browser from the login
+ * passphrase, and every file key is stored on the server wrapped under it with AES-KW.
+ * The server never sees the passphrase or the vault key, so the wrapped keys are as
+ * useless to it as the ciphertext. The vault key is kept for the session in IndexedDB,
+ * as a non-extractable CryptoKey that scripts can use but not read out.
+ */
+
+const VAULT_DATABASE = "fanacrypt_vault";
+const VAULT_STORE = "keys";
+const VAULT_KEY_ID = "vault";
+
+// AES-KW output for a 256-bit key: the key plus an 8-byte integrity check
+const WRAPPED_KEY_BYTES = 40;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Derives the vault key from the passphrase, the same passphrase and params always give the same key
+export async function deriveVaultKey(passphrase: string, params: KeyVaultParams): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(params.salt), iterations: params.iterations },
+        material,
+        { name: "AES-KW", length: 256 },
+        false,
+        ["wrapKey", "unwrapKey"],
+    );
+}
+
+// Wraps a raw AES-256 file key, the result is what the uploads row stores
+export async function wrapFileKey(vaultKey: CryptoKey, rawKey: Uint8Array): Promise<string> {
+    const key = await crypto.subtle.importKey("raw", new Uint8Array(rawKey), { name: "AES-GCM" }, true, ["decrypt"]);
+    return toBase64(new Uint8Array(await crypto.subtle.wrapKey("raw", key, vaultKey, "AES-KW")));
+}
+
+// Whether a value has the shape of a wrapped file key, used by the server before storing one
+export function isWrappedFileKey(wrappedKey: unknown): wrappedKey is string {
+    return typeof wrappedKey === "string" && BASE64_PATTERN.test(wrappedKey) && fromBase64(wrappedKey).byteLength === WRAPPED_KEY_BYTES;
+}
+
+// Unwraps a file key for decryption. Throws when it was wrapped under another vault key.
+export async function unwrapFileKey(vaultKey: CryptoKey, wrappedKey: string, extractable = false): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+        "raw",
+        fromBase64(wrappedKey),
+        vaultKey,
+        "AES-KW",
+        { name: "AES-GCM" },
+        extractable,
+        ["encrypt", "decrypt"],
+    );
+}
+
+// Moves wrapped file keys from one vault key to another, used when the passphrase changes
+export async function rewrapFileKeys(from: CryptoKey, to: CryptoKey, keys: WrappedFileKey[]): Promise<WrappedFileKey[]> {
+    return Promise.all(keys.map(async ({ id, wrappedKey }) => {
+        const key = await unwrapFileKey(from, wrappedKey, true);
+        return { id, wrappedKey: toBase64(new Uint8Array(await crypto.subtle.wrapKey("raw", key, to, "AES-KW"))) };
+    }));
+}
+
+function openVaultDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(VAULT_DATABASE, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(VAULT_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function vaultTransaction<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openVaultDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(database.transaction(VAULT_STORE, mode).objectStore(VAULT_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+}
+
+export async function saveVaultKey(vaultKey: CryptoKey): Promise<void> {
+    await vaultTransaction("readwrite", store => store.put(vaultKey, VAULT_KEY_ID));
+}
+
+// The vault key of this browser's session, null before login or when IndexedDB is unavailable
+export async function loadVaultKey(): Promise<CryptoKey | null> {
+    try {
+        return (await vaultTransaction<CryptoKey | undefined>("readonly", store => store.get(VAULT_KEY_ID))) ?? null;
+    } catch (error) {
+        console.warn("Key vault unavailable:", error);
+        return null;
+    }
+}
+
+export async function clearVaultKey(): Promise<void> {
+    await vaultTransaction("readwrite", store => store.delete(VAULT_KEY_ID)).catch(() => {});
+}
@@ -1,3 +1,6 @@
+import { LoginKdf } from '../types';
+import { fromBase64 } from './crypto';
+
 // --- Helper Functions ---
 
 /**
@@ -44,20 +47,52 @@ function getSecureRandomBigInt(min: bigint, max: bigint): bigint {
 
 /**
  * Key Derivation Function (KDF) to derive the private key 'x' from a passphrase.
- * Uses SHA-256 and maps the hash to the range [1, q-1].
+ * Stretches the passphrase as `kdf` says and maps the result to the range [1, q-1].
+ * Version 1 is a single unsalted SHA-256, kept only to log in accounts that were not upgraded yet.
  * @param passphrase - The user's passphrase.
  * @param q - The order of the cryptographic group.
+ * @param kdf - The derivation stored with the account.
  * @returns The derived private key 'x'.
  */
-async function KDF(passphrase: string, q: bigint): Promise<bigint> {
+async function KDF(passphrase: string, q: bigint, kdf: LoginKdf): Promise<bigint> {
   const encoder = new TextEncoder();
   const data = encoder.encode(passphrase);
 
-  // Hash the passphrase using SHA-256
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  let hash: Uint8Array;
+  switch (kdf.algorithm) {
+    case 'sha256':
+      hash = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+      break;
+    case 'pbkdf2-sha256': {
+      const material = await crypto.subtle.importKey('raw', data, 'PBKDF2', false, ['deriveBits']);
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(kdf.salt), iterations: kdf.iterations },
+        material,
+        256
+      );
+      hash = new Uint8Array(bits);
+      break;
+    }
+    case 'argon2id': {
+      // Loaded on demand, the WebAssembly module is only needed for accounts using Argon2id
+      const { argon2id } = await import('hash-wasm');
+      hash = await argon2id({
+        password: data,
+        salt: fromBase64(kdf.salt),
+        iterations: kdf.iterations,
+        memorySize: kdf.memory,
+        parallelism: kdf.parallelism,
+        hashLength: 32,
+        outputType: 'binary',
+      });
+      break;
+    }
+    default:
+      throw new Error('Unsupported passphrase derivation');
+  }
 
   // Convert the hash to a BigInt
-  const hashBigInt = bytesToBigInt(new Uint8Array(hashBuffer));
+  const hashBigInt = bytesToBigInt(hash);
 
   // Map the hash to the valid key range [1, q-1]
   // (hash % (q-1)) + 1
@@ -92,13 +127,14 @@ export function getPublicParameters(): { p: bigint, q: bigint, g: bigint } {
  * Implements 4.4.1: Generates a new public key X from a passphrase.
  * This corresponds to the "Passphrase Replacement" or registration step.
  * @param new_pw - The user's new passphrase.
+ * @param kdf - The derivation to store with the new public key, with a fresh salt.
  * @returns The new public key 'X'.
  */
-export async function generatePublicKey(new_pw: string): Promise<bigint> {
+export async function generatePublicKey(new_pw: string, kdf: LoginKdf): Promise<bigint> {
   const { p, q, g } = getPublicParameters();
 
   // 1. Derive new x = KDF(new_pw)
-  const x = await KDF(new_pw, q);
+  const x = await KDF(new_pw, q, kdf);
 
   // 2. X = g^x mod p
   // Native BigInt does not have modPow. Use repeated squaring:
@@ -125,13 +161,14 @@ export async function generatePublicKey(new_pw: string): Promise<bigint> {
  * Derives the private key 'x', chooses a random 'v', and computes
  * the commitment 'V'.
  * @param pw - The user's passphrase for login.
+ * @param kdf - The derivation stored with the account.
  * @returns An object containing 'x' (private key), 'v' (secret nonce), and 'V' (commitment to be sent to the server).
  */
-export async function clientLoginStep1(pw: string): Promise<{ x: bigint, v: bigint, V: bigint }> {
+export async function clientLoginStep1(pw: string, kdf: LoginKdf): Promise<{ x: bigint, v: bigint, V: bigint }> {
   const { p, q, g } = getPublicParameters();
 
   // 1. [Client] Derive x = KDF(pw)
-  const x = await KDF(pw, q);
+  const x = await KDF(pw, q, kdf);
 
   // 2. [Client] Choose random v from [1, q-1]
   const v = getSecureRandomBigInt(1n, q - 1n);